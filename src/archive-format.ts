@@ -0,0 +1,376 @@
+/**
+ * CloudForge Agent Archive Formats
+ * Byte layouts of tar (ustar with PAX extensions) and zip archives
+ */
+
+import type { FileHandle } from 'fs/promises'
+
+export type ArchiveFormat = 'tar.gz' | 'tar' | 'zip'
+
+export type EntryType = 'file' | 'directory' | 'symlink' | 'hardlink' | 'other'
+
+export const TAR_BLOCK = 512
+
+// Two zero blocks end a tar archive
+export const TAR_END = Buffer.alloc(TAR_BLOCK * 2)
+
+// Largest size an ustar header holds in octal; bigger files need a PAX size record
+const TAR_MAX_OCTAL_SIZE = 0o77777777777
+
+const ZIP_LOCAL_HEADER = 0x04034b50
+const ZIP_DATA_DESCRIPTOR = 0x08074b50
+const ZIP_CENTRAL_HEADER = 0x02014b50
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50
+
+// General purpose flags: sizes follow the data, names are UTF-8
+const ZIP_FLAG_DATA_DESCRIPTOR = 0x0008
+const ZIP_FLAG_UTF8 = 0x0800
+
+// Zip32 limits; zip64 is not supported
+export const ZIP_MAX_SIZE = 0xffffffff
+export const ZIP_MAX_ENTRIES = 0xffff
+
+export const ZIP_STORED = 0
+export const ZIP_DEFLATED = 8
+
+const S_IFMT = 0o170000
+const S_IFDIR = 0o040000
+const S_IFLNK = 0o120000
+const S_IFREG = 0o100000
+
+export interface TarHeader {
+  name: string
+  type: EntryType
+  mode: number
+  size: number
+  /** Modification time in seconds */
+  mtime: number
+  linkname: string
+}
+
+export interface ZipEntry {
+  name: string
+  type: EntryType
+  mode: number
+  method: number
+  crc: number
+  compressedSize: number
+  size: number
+  mtime: Date
+  /** Offset of the local header */
+  offset: number
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+/**
+ * CRC-32 as used by zip, continuing from a previous value
+ */
+export function crc32(data: Buffer, previous = 0): number {
+  let crc = (previous ^ 0xffffffff) >>> 0
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function writeString(block: Buffer, value: string, offset: number, length: number): void {
+  Buffer.from(value, 'utf8').copy(block, offset, 0, length)
+}
+
+function writeOctal(block: Buffer, value: number, offset: number, length: number): void {
+  block.write(Math.floor(value).toString(8).padStart(length - 1, '0').slice(-(length - 1)) + '\0', offset, length, 'ascii')
+}
+
+function paxRecord(key: string, value: string): string {
+  // The length prefix counts itself
+  const body = ` ${key}=${value}\n`
+  const bodyLength = Buffer.byteLength(body)
+  let length = bodyLength + String(bodyLength).length
+  length = bodyLength + String(length).length
+  return `${length}${body}`
+}
+
+function tarBlock(header: TarHeader, typeflag: string, name: string, size: number): Buffer {
+  const block = Buffer.alloc(TAR_BLOCK)
+  writeString(block, name, 0, 100)
+  writeOctal(block, header.mode & 0o7777, 100, 8)
+  writeOctal(block, 0, 108, 8)
+  writeOctal(block, 0, 116, 8)
+  writeOctal(block, size > TAR_MAX_OCTAL_SIZE ? 0 : size, 124, 12)
+  writeOctal(block, header.mtime, 136, 12)
+  block.fill(' ', 148, 156)
+  block.write(typeflag, 156, 1, 'ascii')
+  writeString(block, header.linkname, 157, 100)
+  block.write('ustar\0' + '00', 257, 8, 'ascii')
+
+  let checksum = 0
+  for (const byte of block) checksum += byte
+  block.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8, 'ascii')
+  return block
+}
+
+/**
+ * Padding after entry data up to the next block boundary
+ */
+export function tarPadding(size: number): Buffer {
+  const remainder = size % TAR_BLOCK
+  return Buffer.alloc(remainder === 0 ? 0 : TAR_BLOCK - remainder)
+}
+
+/**
+ * Header block(s) for one entry, with a PAX extended header in front when
+ * the name, link target or size does not fit the ustar fields
+ */
+export function encodeTarHeader(header: TarHeader): Buffer {
+  const name = header.type === 'directory' && !header.name.endsWith('/') ? header.name + '/' : header.name
+  const typeflag = header.type === 'directory' ? '5' : header.type === 'symlink' ? '2' : '0'
+  const size = header.type === 'file' ? header.size : 0
+
+  let pax = ''
+  if (Buffer.byteLength(name) > 100) pax += paxRecord('path', name)
+  if (Buffer.byteLength(header.linkname) > 100) pax += paxRecord('linkpath', header.linkname)
+  if (size > TAR_MAX_OCTAL_SIZE) pax += paxRecord('size', String(size))
+
+  const main = tarBlock(header, typeflag, name, size)
+  if (!pax) return main
+
+  const data = Buffer.from(pax, 'utf8')
+  const paxHeader = tarBlock({ ...header, linkname: '' }, 'x', `PaxHeader/${name}`.slice(0, 99), data.length)
+  return Buffer.concat([paxHeader, data, tarPadding(data.length), main])
+}
+
+function parseString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length)
+  const end = field.indexOf(0)
+  return field.subarray(0, end === -1 ? length : end).toString('utf8')
+}
+
+function parseNumber(block: Buffer, offset: number, length: number): number {
+  // GNU base-256 encoding for values too large for octal
+  if (block[offset] & 0x80) {
+    let value = block[offset] & 0x7f
+    for (let i = 1; i < length; i++) value = value * 256 + block[offset + i]
+    return value
+  }
+  const text = block.toString('ascii', offset, offset + length).replace(/[\0 ]+$/, '').trim()
+  return text ? parseInt(text, 8) : 0
+}
+
+/**
+ * Decode a header block. Returns null for a zero block (end of archive).
+ * The raw typeflag is kept for PAX and GNU long-name headers.
+ */
+export function decodeTarHeader(block: Buffer): (TarHeader & { typeflag: string }) | null {
+  if (block.every(byte => byte === 0)) return null
+
+  let checksum = 0
+  for (let i = 0; i < TAR_BLOCK; i++) {
+    checksum += i >= 148 && i < 156 ? 0x20 : block[i]
+  }
+  if (checksum !== parseNumber(block, 148, 8)) {
+    throw new Error('Invalid tar header checksum')
+  }
+
+  const typeflag = String.fromCharCode(block[156] || 0x30)
+  let name = parseString(block, 0, 100)
+  if (block.toString('ascii', 257, 262) === 'ustar') {
+    const prefix = parseString(block, 345, 155)
+    if (prefix) name = `${prefix}/${name}`
+  }
+
+  const types: Record<string, EntryType> = { '0': 'file', '7': 'file', '5': 'directory', '2': 'symlink', '1': 'hardlink' }
+  return {
+    name,
+    typeflag,
+    type: types[typeflag] || 'other',
+    mode: parseNumber(block, 100, 8),
+    size: parseNumber(block, 124, 12),
+    mtime: parseNumber(block, 136, 12),
+    linkname: parseString(block, 157, 100),
+  }
+}
+
+/**
+ * Parse the records of a PAX extended header
+ */
+export function parsePax(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {}
+  let offset = 0
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset)
+    if (space === -1) break
+    const length = parseInt(data.toString('ascii', offset, space), 10)
+    if (!length) break
+    const record = data.toString('utf8', space + 1, offset + length - 1)
+    const equals = record.indexOf('=')
+    if (equals !== -1) records[record.slice(0, equals)] = record.slice(equals + 1)
+    offset += length
+  }
+  return records
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980)
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+function fromDosDateTime(time: number, date: number): Date {
+  return new Date(1980 + (date >> 9), ((date >> 5) & 0xf) - 1, date & 0x1f, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2)
+}
+
+function unixMode(entry: Pick<ZipEntry, 'type' | 'mode'>): number {
+  const kind = entry.type === 'directory' ? S_IFDIR : entry.type === 'symlink' ? S_IFLNK : S_IFREG
+  return kind | (entry.mode & 0o7777)
+}
+
+/**
+ * Local header for an entry whose CRC and sizes follow in a data descriptor
+ */
+export function zipLocalHeader(entry: Pick<ZipEntry, 'name' | 'method' | 'mtime'>): Buffer {
+  const name = Buffer.from(entry.name, 'utf8')
+  const { time, date } = dosDateTime(entry.mtime)
+  const header = Buffer.alloc(30)
+  header.writeUInt32LE(ZIP_LOCAL_HEADER, 0)
+  header.writeUInt16LE(20, 4)
+  header.writeUInt16LE(ZIP_FLAG_DATA_DESCRIPTOR | ZIP_FLAG_UTF8, 6)
+  header.writeUInt16LE(entry.method, 8)
+  header.writeUInt16LE(time, 10)
+  header.writeUInt16LE(date, 12)
+  // CRC and sizes are zero here and given in the data descriptor
+  header.writeUInt16LE(name.length, 26)
+  return Buffer.concat([header, name])
+}
+
+export function zipDataDescriptor(entry: Pick<ZipEntry, 'crc' | 'compressedSize' | 'size'>): Buffer {
+  const descriptor = Buffer.alloc(16)
+  descriptor.writeUInt32LE(ZIP_DATA_DESCRIPTOR, 0)
+  descriptor.writeUInt32LE(entry.crc, 4)
+  descriptor.writeUInt32LE(entry.compressedSize, 8)
+  descriptor.writeUInt32LE(entry.size, 12)
+  return descriptor
+}
+
+export function zipCentralHeader(entry: ZipEntry): Buffer {
+  const name = Buffer.from(entry.name, 'utf8')
+  const { time, date } = dosDateTime(entry.mtime)
+  const header = Buffer.alloc(46)
+  header.writeUInt32LE(ZIP_CENTRAL_HEADER, 0)
+  // Made by Unix, so the external attributes carry the mode
+  header.writeUInt16LE((3 << 8) | 20, 4)
+  header.writeUInt16LE(20, 6)
+  header.writeUInt16LE(ZIP_FLAG_DATA_DESCRIPTOR | ZIP_FLAG_UTF8, 8)
+  header.writeUInt16LE(entry.method, 10)
+  header.writeUInt16LE(time, 12)
+  header.writeUInt16LE(date, 14)
+  header.writeUInt32LE(entry.crc, 16)
+  header.writeUInt32LE(entry.compressedSize, 20)
+  header.writeUInt32LE(entry.size, 24)
+  header.writeUInt16LE(name.length, 28)
+  // MS-DOS directory attribute in the low byte
+  header.writeUInt32LE(((unixMode(entry) << 16) | (entry.type === 'directory' ? 0x10 : 0)) >>> 0, 38)
+  header.writeUInt32LE(entry.offset, 42)
+  return Buffer.concat([header, name])
+}
+
+export function zipEndOfCentralDirectory(count: number, size: number, offset: number): Buffer {
+  const record = Buffer.alloc(22)
+  record.writeUInt32LE(ZIP_END_OF_CENTRAL_DIRECTORY, 0)
+  record.writeUInt16LE(count, 8)
+  record.writeUInt16LE(count, 10)
+  record.writeUInt32LE(size, 12)
+  record.writeUInt32LE(offset, 16)
+  return record
+}
+
+/**
+ * Read the central directory of a zip file
+ */
+export async function readZipDirectory(handle: FileHandle, fileSize: number): Promise<ZipEntry[]> {
+  // The end record is in the last 22 bytes, plus up to 64KB of comment
+  const tailLength = Math.min(fileSize, 22 + 0xffff)
+  const tail = Buffer.alloc(tailLength)
+  await handle.read(tail, 0, tailLength, fileSize - tailLength)
+
+  let end = -1
+  for (let i = tailLength - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) throw new Error('Not a zip archive (no end of central directory)')
+
+  const count = tail.readUInt16LE(end + 10)
+  const size = tail.readUInt32LE(end + 12)
+  const offset = tail.readUInt32LE(end + 16)
+  if (count === 0xffff || size === 0xffffffff || offset === 0xffffffff) {
+    throw new Error('Zip64 archives are not supported')
+  }
+  if (offset + size > fileSize) throw new Error('Truncated zip archive')
+
+  const directory = Buffer.alloc(size)
+  await handle.read(directory, 0, size, offset)
+
+  const entries: ZipEntry[] = []
+  let position = 0
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > directory.length || directory.readUInt32LE(position) !== ZIP_CENTRAL_HEADER) {
+      throw new Error('Corrupt zip central directory')
+    }
+    const madeBy = directory.readUInt16LE(position + 4) >> 8
+    const flags = directory.readUInt16LE(position + 8)
+    const nameLength = directory.readUInt16LE(position + 28)
+    const extraLength = directory.readUInt16LE(position + 30)
+    const commentLength = directory.readUInt16LE(position + 32)
+    const attributes = directory.readUInt32LE(position + 38)
+    const rawName = directory.subarray(position + 46, position + 46 + nameLength)
+    const name = rawName.toString(flags & ZIP_FLAG_UTF8 ? 'utf8' : 'latin1')
+
+    // Only Unix-made archives carry a usable mode
+    const mode = madeBy === 3 ? attributes >>> 16 : 0
+    let type: EntryType = 'file'
+    if (name.endsWith('/') || (mode & S_IFMT) === S_IFDIR || (attributes & 0x10)) type = 'directory'
+    else if ((mode & S_IFMT) === S_IFLNK) type = 'symlink'
+    else if ((mode & S_IFMT) !== 0 && (mode & S_IFMT) !== S_IFREG) type = 'other'
+
+    entries.push({
+      name,
+      type,
+      mode: mode & 0o7777,
+      method: directory.readUInt16LE(position + 10),
+      crc: directory.readUInt32LE(position + 16),
+      compressedSize: directory.readUInt32LE(position + 20),
+      size: directory.readUInt32LE(position + 24),
+      mtime: fromDosDateTime(directory.readUInt16LE(position + 12), directory.readUInt16LE(position + 14)),
+      offset: directory.readUInt32LE(position + 42),
+    })
+    position += 46 + nameLength + extraLength + commentLength
+  }
+  return entries
+}
+
+/**
+ * Offset of an entry's data, after its local header
+ */
+export async function zipDataOffset(handle: FileHandle, entry: ZipEntry): Promise<number> {
+  const header = Buffer.alloc(30)
+  await handle.read(header, 0, 30, entry.offset)
+  if (header.readUInt32LE(0) !== ZIP_LOCAL_HEADER) {
+    throw new Error(`Corrupt zip entry: ${entry.name}`)
+  }
+  return entry.offset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28)
+}
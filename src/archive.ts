@@ -0,0 +1,970 @@
+/**
+ * CloudForge Agent Archives
+ * Streams a directory as tar.gz or zip in chunks, and unpacks uploaded
+ * archives without letting entries escape the target directory
+ */
+
+import * as fs from 'fs'
+import * as fsp from 'fs/promises'
+import * as path from 'path'
+import { Readable, pipeline } from 'stream'
+import { createDeflateRaw, createGunzip, createGzip, createInflateRaw } from 'zlib'
+import { randomUUID } from 'crypto'
+import chalk from 'chalk'
+import type { AgentConfig } from './config.js'
+import type { FileManager } from './files.js'
+import { walkFiles } from './ignore.js'
+import {
+  TAR_BLOCK,
+  TAR_END,
+  ZIP_DEFLATED,
+  ZIP_MAX_ENTRIES,
+  ZIP_MAX_SIZE,
+  ZIP_STORED,
+  crc32,
+  decodeTarHeader,
+  encodeTarHeader,
+  parsePax,
+  readZipDirectory,
+  tarPadding,
+  zipCentralHeader,
+  zipDataDescriptor,
+  zipDataOffset,
+  zipEndOfCentralDirectory,
+  zipLocalHeader,
+  type ArchiveFormat,
+  type EntryType,
+  type ZipEntry,
+} from './archive-format.js'
+
+export type { ArchiveFormat } from './archive-format.js'
+
+// Default and maximum chunk size; base64 chunks must stay under socket.io's 1MB message limit
+const DEFAULT_CHUNK_SIZE = 256 * 1024
+const MAX_CHUNK_SIZE = 512 * 1024
+
+// File data is read in pieces of this size
+const READ_SIZE = 64 * 1024
+
+// Archives not read from for this long are dropped
+const ARCHIVE_IDLE_MS = 10 * 60_000
+
+// Extraction progress is reported at most this often
+const PROGRESS_INTERVAL_MS = 250
+
+// PAX headers, GNU long names and zip symlink targets larger than this are refused
+const MAX_METADATA_SIZE = 1024 * 1024
+
+// At most this many skipped entries are listed
+const MAX_SKIPPED = 1000
+
+export interface ArchiveOptions {
+  format?: ArchiveFormat
+  /** Globs (relative to the directory) to leave out */
+  exclude?: string[]
+  /** Leave out what .gitignore files ignore, and .git (default false) */
+  gitignore?: boolean
+}
+
+export interface ArchiveInfo {
+  archiveId: string
+  path: string
+  format: ArchiveFormat
+  entries: number
+  /** Total size of the files going in, before compression */
+  totalBytes: number
+  chunkSize: number
+}
+
+export interface SkippedEntry {
+  path: string
+  reason: string
+}
+
+export interface ArchiveChunk {
+  archiveId: string
+  offset: number
+  bytesRead: number
+  content: string
+  encoding: 'base64'
+  eof: boolean
+  /** Files that could not be read, given with the last chunk */
+  skipped?: SkippedEntry[]
+}
+
+export interface ArchiveProgress {
+  archiveId: string
+  entries: number
+  totalEntries: number
+  bytesProcessed: number
+  totalBytes: number
+  /** Archive bytes handed out so far */
+  bytesSent: number
+}
+
+export interface ExtractOptions {
+  /** Replace existing files and symlinks (default false, which skips them) */
+  overwrite?: boolean
+}
+
+export interface ExtractResult {
+  destination: string
+  format: ArchiveFormat
+  files: number
+  directories: number
+  symlinks: number
+  /** Bytes of file data written */
+  bytes: number
+  skipped: SkippedEntry[]
+}
+
+export interface ExtractProgress {
+  destination: string
+  entries: number
+  bytes: number
+  /** How far through the archive file extraction is */
+  archiveBytesRead: number
+  archiveSize: number
+}
+
+interface ArchiveEntry {
+  fullPath: string
+  /** Path inside the archive, with forward slashes */
+  name: string
+  type: 'file' | 'directory' | 'symlink'
+  mode: number
+  size: number
+  mtime: Date
+  linkname: string
+}
+
+interface Archive {
+  archiveId: string
+  path: string
+  format: ArchiveFormat
+  entries: ArchiveEntry[]
+  totalBytes: number
+  stream: Readable | null
+  iterator: AsyncIterator<Buffer> | null
+  /** Data produced but not yet handed out */
+  pending: Buffer
+  ended: boolean
+  reading: boolean
+  cancelled: boolean
+  entriesDone: number
+  bytesProcessed: number
+  bytesSent: number
+  lastChunk: ArchiveChunk | null
+  skipped: SkippedEntry[]
+  updatedAt: number
+}
+
+interface ExtractState {
+  root: string
+  overwrite: boolean
+  result: ExtractResult
+  /** Directories known to be real directories inside the destination */
+  safeDirs: Set<string>
+  /** Directories this extraction created */
+  createdDirs: Set<string>
+  /** Modes and times applied to directories once their contents are in */
+  directories: { path: string; mode: number; mtime: Date }[]
+  entries: number
+  archiveSize: number
+  archiveBytesRead: number
+  reportedAt: number
+  onProgress?: (progress: ExtractProgress) => void
+}
+
+function validateArchiveId(archiveId: string): string {
+  if (!/^[A-Za-z0-9_-]{1,64}$/.test(archiveId)) {
+    throw new Error(`Invalid archive ID: ${archiveId}`)
+  }
+  return archiveId
+}
+
+function addSkipped(skipped: SkippedEntry[], entry: SkippedEntry): void {
+  if (skipped.length < MAX_SKIPPED) skipped.push(entry)
+}
+
+function isInside(root: string, target: string): boolean {
+  return target === root || target.startsWith(root + path.sep)
+}
+
+/**
+ * Split an entry name into path components, or return null when it is
+ * absolute or climbs out with ".."
+ */
+function entryPathParts(name: string): string[] | null {
+  const normalized = name.replace(/\\/g, '/')
+  if (normalized.includes('\0') || normalized.startsWith('/') || /^[A-Za-z]:/.test(normalized)) return null
+  const parts = normalized.split('/').filter(part => part !== '' && part !== '.')
+  return parts.includes('..') ? null : parts
+}
+
+/**
+ * Whether a symlink target stays inside the destination. ".." is only
+ * allowed at the start: after a component that may itself be a symlink,
+ * the filesystem would resolve it differently from how it reads.
+ */
+function isSafeLinkTarget(root: string, linkPath: string, linkname: string): boolean {
+  if (!linkname || linkname.includes('\0') || path.isAbsolute(linkname) || /^[A-Za-z]:/.test(linkname)) return false
+  const parts = linkname.replace(/\\/g, '/').split('/').filter(part => part !== '' && part !== '.')
+  const firstName = parts.findIndex(part => part !== '..')
+  if (firstName !== -1 && parts.slice(firstName).includes('..')) return false
+  return isInside(root, path.resolve(path.dirname(linkPath), ...parts))
+}
+
+/**
+ * Hands out exact byte counts from a stream of buffers
+ */
+class StreamReader {
+  private iterator: AsyncIterator<Buffer>
+  private pending: Buffer = Buffer.alloc(0)
+  private done = false
+  position = 0
+
+  constructor(stream: AsyncIterable<Buffer>) {
+    this.iterator = stream[Symbol.asyncIterator]()
+  }
+
+  private async fill(length: number): Promise<void> {
+    while (this.pending.length < length && !this.done) {
+      const { value, done } = await this.iterator.next()
+      if (done) {
+        this.done = true
+      } else {
+        this.pending = this.pending.length > 0 ? Buffer.concat([this.pending, value]) : value
+      }
+    }
+  }
+
+  /**
+   * Read exactly length bytes, or null at a clean end of the stream
+   */
+  async read(length: number): Promise<Buffer | null> {
+    await this.fill(length)
+    if (this.pending.length === 0 && this.done) return null
+    if (this.pending.length < length) throw new Error('Unexpected end of archive')
+    const data = this.pending.subarray(0, length)
+    this.pending = this.pending.subarray(length)
+    this.position += length
+    return data
+  }
+
+  /**
+   * Yield the next length bytes in pieces
+   */
+  async *chunks(length: number): AsyncGenerator<Buffer> {
+    let left = length
+    while (left > 0) {
+      await this.fill(1)
+      if (this.pending.length === 0) throw new Error('Unexpected end of archive')
+      const data = this.pending.subarray(0, Math.min(left, this.pending.length))
+      this.pending = this.pending.subarray(data.length)
+      this.position += data.length
+      left -= data.length
+      yield data
+    }
+  }
+
+  async skip(length: number): Promise<void> {
+    const chunks = this.chunks(length)
+    while (!(await chunks.next()).done) {
+      // Discarded
+    }
+  }
+}
+
+async function detectArchiveFormat(handle: fsp.FileHandle): Promise<ArchiveFormat> {
+  const head = Buffer.alloc(TAR_BLOCK)
+  const { bytesRead } = await handle.read(head, 0, TAR_BLOCK, 0)
+  if (bytesRead >= 2 && head[0] === 0x1f && head[1] === 0x8b) return 'tar.gz'
+  if (bytesRead >= 4 && head.toString('latin1', 0, 2) === 'PK' && (head.readUInt16LE(2) === 0x0403 || head.readUInt16LE(2) === 0x0605)) return 'zip'
+  if (bytesRead === TAR_BLOCK && head.toString('ascii', 257, 262) === 'ustar') return 'tar'
+  throw new Error('Unrecognised archive format (expected tar.gz, tar or zip)')
+}
+
+export class ArchiveManager {
+  private config: AgentConfig
+  private fileManager: FileManager
+  private archives = new Map<string, Archive>()
+  private progressCallbacks: ((progress: ArchiveProgress) => void)[] = []
+
+  constructor(config: AgentConfig, fileManager: FileManager) {
+    this.config = config
+    this.fileManager = fileManager
+
+    // Drop abandoned archives every minute
+    setInterval(() => this.cleanupIdle(), 60_000).unref()
+  }
+
+  /**
+   * Register a listener for progress after each chunk
+   */
+  onProgress(callback: (progress: ArchiveProgress) => void): void {
+    this.progressCallbacks.push(callback)
+  }
+
+  /**
+   * Start archiving a directory. The tree is listed up front, so the total
+   * is known; the archive itself is built as the client pulls chunks.
+   */
+  async create(dirPath: string, options: ArchiveOptions = {}, archiveId: string = randomUUID()): Promise<ArchiveInfo> {
+    validateArchiveId(archiveId)
+    const root = this.fileManager.resolvePath(dirPath)
+    const format = options.format || 'tar.gz'
+    if (!['tar.gz', 'tar', 'zip'].includes(format)) {
+      throw new Error(`Unsupported archive format: ${format}`)
+    }
+
+    const stats = await fsp.stat(root)
+    if (!stats.isDirectory()) {
+      throw new Error(`Not a directory: ${root}`)
+    }
+
+    if (this.config.debug) {
+      console.log(chalk.gray(`Archive start: ${archiveId}, ${root}, format=${format}`))
+    }
+
+    // Directories are listed as they are entered, ahead of their contents
+    const found: string[] = []
+    for await (const filePath of walkFiles(root, {
+      gitignore: options.gitignore === true,
+      hidden: true,
+      symlinks: true,
+      exclude: options.exclude,
+      onDirectory: dir => {
+        if (dir !== root) found.push(dir)
+      },
+    })) {
+      found.push(filePath)
+    }
+
+    const entries: ArchiveEntry[] = []
+    let totalBytes = 0
+    for (const fullPath of found) {
+      let entryStats: fs.Stats
+      let linkname = ''
+      try {
+        entryStats = await fsp.lstat(fullPath)
+        if (entryStats.isSymbolicLink()) linkname = await fsp.readlink(fullPath)
+      } catch {
+        // Removed since it was listed
+        continue
+      }
+      const type = entryStats.isDirectory() ? 'directory' : entryStats.isSymbolicLink() ? 'symlink' : 'file'
+      const size = type === 'file' ? entryStats.size : 0
+      if (format === 'zip' && size > ZIP_MAX_SIZE) {
+        throw new Error(`${fullPath} is too large for zip; use tar.gz`)
+      }
+      entries.push({
+        fullPath,
+        name: path.relative(root, fullPath).split(path.sep).join('/'),
+        type,
+        mode: entryStats.mode & 0o7777,
+        size,
+        mtime: entryStats.mtime,
+        linkname,
+      })
+      totalBytes += size
+    }
+    if (format === 'zip' && entries.length > ZIP_MAX_ENTRIES) {
+      throw new Error(`Too many entries for zip (${entries.length}); use tar.gz`)
+    }
+
+    this.cancel(archiveId)
+    this.archives.set(archiveId, {
+      archiveId,
+      path: root,
+      format,
+      entries,
+      totalBytes,
+      stream: null,
+      iterator: null,
+      pending: Buffer.alloc(0),
+      ended: false,
+      reading: false,
+      cancelled: false,
+      entriesDone: 0,
+      bytesProcessed: 0,
+      bytesSent: 0,
+      lastChunk: null,
+      skipped: [],
+      updatedAt: Date.now(),
+    })
+
+    return { archiveId, path: root, format, entries: entries.length, totalBytes, chunkSize: DEFAULT_CHUNK_SIZE }
+  }
+
+  /**
+   * Read the next chunk of an archive. Chunks are produced in order, so the
+   * offset must follow the previous chunk; asking for the previous chunk
+   * again (after a lost response) returns it unchanged.
+   */
+  async readChunk(archiveId: string, offset: number, length = DEFAULT_CHUNK_SIZE): Promise<ArchiveChunk> {
+    const archive = this.archives.get(archiveId)
+    if (!archive) {
+      throw new Error(`Archive ${archiveId} not found`)
+    }
+    if (archive.lastChunk && offset === archive.lastChunk.offset) {
+      return archive.lastChunk
+    }
+    if (offset !== archive.bytesSent) {
+      throw new Error(`Unexpected offset ${offset}, expected ${archive.bytesSent}`)
+    }
+    if (archive.reading) {
+      throw new Error('A chunk of this archive is already being read')
+    }
+
+    const chunkSize = Math.min(Math.max(length, 1), MAX_CHUNK_SIZE)
+    archive.reading = true
+    archive.updatedAt = Date.now()
+    try {
+      if (!archive.iterator) this.startStream(archive)
+      while (archive.pending.length < chunkSize && !archive.ended) {
+        const { value, done } = await archive.iterator!.next()
+        if (archive.cancelled) throw new Error(`Archive ${archiveId} was cancelled`)
+        if (done) {
+          archive.ended = true
+        } else {
+          archive.pending = archive.pending.length > 0 ? Buffer.concat([archive.pending, value]) : value
+        }
+      }
+    } catch (err) {
+      this.cancel(archiveId)
+      throw err
+    } finally {
+      archive.reading = false
+    }
+
+    const data = archive.pending.subarray(0, chunkSize)
+    archive.pending = archive.pending.subarray(data.length)
+    archive.bytesSent += data.length
+    archive.updatedAt = Date.now()
+
+    const eof = archive.ended && archive.pending.length === 0
+    archive.lastChunk = {
+      archiveId,
+      offset,
+      bytesRead: data.length,
+      content: data.toString('base64'),
+      encoding: 'base64',
+      eof,
+      ...(eof ? { skipped: archive.skipped } : {}),
+    }
+    this.reportProgress(archive)
+    return archive.lastChunk
+  }
+
+  /**
+   * Stop building an archive and forget it
+   */
+  cancel(archiveId: string): boolean {
+    const archive = this.archives.get(archiveId)
+    if (!archive) return false
+
+    if (this.config.debug) {
+      console.log(chalk.gray(`Archive cancel: ${archiveId}`))
+    }
+
+    archive.cancelled = true
+    archive.stream?.destroy()
+    this.archives.delete(archiveId)
+    return true
+  }
+
+  /**
+   * Cancel all archives (on shutdown)
+   */
+  cancelAll(): void {
+    for (const archiveId of [...this.archives.keys()]) {
+      this.cancel(archiveId)
+    }
+  }
+
+  /**
+   * Unpack a tar.gz, tar or zip file into a directory. Entries that would
+   * land outside it (absolute paths, "..", paths through symlinks, or
+   * symlinks pointing out) are skipped and reported, as are hard links and
+   * device files.
+   */
+  async extract(
+    archivePath: string,
+    destination: string,
+    options: ExtractOptions = {},
+    onProgress?: (progress: ExtractProgress) => void
+  ): Promise<ExtractResult> {
+    const resolvedArchive = this.fileManager.resolvePath(archivePath)
+    const resolvedDestination = this.fileManager.resolvePath(destination)
+
+    const handle = await fsp.open(resolvedArchive, 'r')
+    try {
+      const format = await detectArchiveFormat(handle)
+      const archiveSize = (await handle.stat()).size
+
+      await fsp.mkdir(resolvedDestination, { recursive: true })
+      // Work against the real path, so checks compare like with like
+      const root = await fsp.realpath(resolvedDestination)
+
+      if (this.config.debug) {
+        console.log(chalk.gray(`Extract: ${resolvedArchive} -> ${root}, format=${format}`))
+      }
+
+      const state: ExtractState = {
+        root,
+        overwrite: options.overwrite === true,
+        result: { destination: root, format, files: 0, directories: 0, symlinks: 0, bytes: 0, skipped: [] },
+        safeDirs: new Set([root]),
+        createdDirs: new Set(),
+        directories: [],
+        entries: 0,
+        archiveSize,
+        archiveBytesRead: 0,
+        reportedAt: 0,
+        onProgress,
+      }
+
+      if (format === 'zip') {
+        await this.extractZip(handle, state)
+      } else {
+        await this.extractTar(resolvedArchive, format, state)
+      }
+
+      // Deepest first, so a read-only directory does not block its children
+      for (const dir of state.directories.reverse()) {
+        await fsp.chmod(dir.path, dir.mode).catch(() => {})
+        await fsp.utimes(dir.path, dir.mtime, dir.mtime).catch(() => {})
+      }
+
+      state.archiveBytesRead = archiveSize
+      this.reportExtractProgress(state, true)
+      return state.result
+    } finally {
+      await handle.close()
+    }
+  }
+
+  private startStream(archive: Archive): void {
+    let source: Readable
+    if (archive.format === 'zip') {
+      source = Readable.from(this.zipData(archive))
+    } else {
+      source = Readable.from(this.tarData(archive))
+      if (archive.format === 'tar.gz') {
+        const gzip = createGzip()
+        pipeline(source, gzip, () => {})
+        source = gzip
+      }
+    }
+    archive.stream = source
+    archive.iterator = source[Symbol.asyncIterator]()
+  }
+
+  /**
+   * Open a file for reading, or note why it cannot go in
+   */
+  private async openEntry(archive: Archive, entry: ArchiveEntry): Promise<fsp.FileHandle | null> {
+    try {
+      return await fsp.open(entry.fullPath, 'r')
+    } catch (err) {
+      addSkipped(archive.skipped, { path: entry.name, reason: err instanceof Error ? err.message : String(err) })
+      archive.entriesDone++
+      archive.bytesProcessed += entry.size
+      return null
+    }
+  }
+
+  /**
+   * A file's data, exactly as long as it was when listed: extra bytes are
+   * left out, and a file that shrank is padded with zeros
+   */
+  private async *fileData(archive: Archive, handle: fsp.FileHandle, size: number): AsyncGenerator<Buffer> {
+    let position = 0
+    while (position < size) {
+      if (archive.cancelled) return
+      const buffer = Buffer.alloc(Math.min(READ_SIZE, size - position))
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, position)
+      const data = bytesRead === 0 ? buffer : buffer.subarray(0, bytesRead)
+      position += data.length
+      archive.bytesProcessed += data.length
+      yield data
+    }
+  }
+
+  private async *tarData(archive: Archive): AsyncGenerator<Buffer> {
+    for (const entry of archive.entries) {
+      if (archive.cancelled) return
+      const header = {
+        name: entry.name,
+        type: entry.type,
+        mode: entry.mode,
+        size: entry.size,
+        mtime: Math.floor(entry.mtime.getTime() / 1000),
+        linkname: entry.linkname,
+      }
+
+      if (entry.type !== 'file') {
+        yield encodeTarHeader(header)
+        archive.entriesDone++
+        continue
+      }
+
+      // Opened before the header goes out, so an unreadable file can still be left out
+      const handle = await this.openEntry(archive, entry)
+      if (!handle) continue
+      try {
+        yield encodeTarHeader(header)
+        yield* this.fileData(archive, handle, entry.size)
+        yield tarPadding(entry.size)
+      } finally {
+        await handle.close()
+      }
+      archive.entriesDone++
+    }
+    yield TAR_END
+  }
+
+  private async *zipData(archive: Archive): AsyncGenerator<Buffer> {
+    const written: ZipEntry[] = []
+    let offset = 0
+
+    for (const entry of archive.entries) {
+      if (archive.cancelled) return
+      const handle = entry.type === 'file' ? await this.openEntry(archive, entry) : null
+      if (entry.type === 'file' && !handle) continue
+
+      try {
+        if (offset > ZIP_MAX_SIZE) {
+          throw new Error('Archive is larger than 4GB; use tar.gz')
+        }
+        const zipEntry: ZipEntry = {
+          name: entry.type === 'directory' ? `${entry.name}/` : entry.name,
+          type: entry.type,
+          mode: entry.mode,
+          method: entry.size > 0 ? ZIP_DEFLATED : ZIP_STORED,
+          crc: 0,
+          compressedSize: 0,
+          size: 0,
+          mtime: entry.mtime,
+          offset,
+        }
+        const header = zipLocalHeader(zipEntry)
+        offset += header.length
+        yield header
+
+        if (entry.type === 'symlink') {
+          // A symlink's data is its target
+          const data = Buffer.from(entry.linkname, 'utf8')
+          zipEntry.crc = crc32(data)
+          zipEntry.size = zipEntry.compressedSize = data.length
+          offset += data.length
+          yield data
+        } else if (handle && entry.size > 0) {
+          let crc = 0
+          const fileData = this.fileData(archive, handle, entry.size)
+          const checked = async function* () {
+            for await (const data of fileData) {
+              crc = crc32(data, crc)
+              yield data
+            }
+          }
+          const deflate = createDeflateRaw()
+          pipeline(Readable.from(checked()), deflate, () => {})
+          for await (const compressed of deflate) {
+            zipEntry.compressedSize += compressed.length
+            offset += compressed.length
+            yield compressed as Buffer
+          }
+          zipEntry.crc = crc
+          zipEntry.size = entry.size
+        }
+
+        const descriptor = zipDataDescriptor(zipEntry)
+        offset += descriptor.length
+        yield descriptor
+        written.push(zipEntry)
+      } finally {
+        await handle?.close()
+      }
+      archive.entriesDone++
+    }
+
+    if (offset > ZIP_MAX_SIZE) {
+      throw new Error('Archive is larger than 4GB; use tar.gz')
+    }
+    const directory = Buffer.concat(written.map(zipCentralHeader))
+    yield directory
+    yield zipEndOfCentralDirectory(written.length, directory.length, offset)
+  }
+
+  private async extractTar(archivePath: string, format: ArchiveFormat, state: ExtractState): Promise<void> {
+    const file = fs.createReadStream(archivePath, { highWaterMark: READ_SIZE })
+    file.on('data', (data) => {
+      state.archiveBytesRead += data.length
+    })
+    let source: Readable = file
+    if (format === 'tar.gz') {
+      const gunzip = createGunzip()
+      pipeline(file, gunzip, () => {})
+      source = gunzip
+    }
+
+    const reader = new StreamReader(source)
+    let pax: Record<string, string> = {}
+    let longName: string | null = null
+    let longLink: string | null = null
+
+    try {
+      for (;;) {
+        const block = await reader.read(TAR_BLOCK)
+        const header = block && decodeTarHeader(block)
+        // A zero block (or a missing end marker) ends the archive
+        if (!header) break
+
+        // Metadata entries describe the entry after them
+        if (['x', 'g', 'L', 'K'].includes(header.typeflag)) {
+          if (header.size > MAX_METADATA_SIZE) {
+            throw new Error(`Tar metadata entry too large (${header.size} bytes)`)
+          }
+          const data = (await reader.read(header.size)) || Buffer.alloc(0)
+          await reader.skip(tarPadding(header.size).length)
+          if (header.typeflag === 'x') pax = parsePax(data)
+          else if (header.typeflag === 'L') longName = data.toString('utf8').replace(/\0+$/, '')
+          else if (header.typeflag === 'K') longLink = data.toString('utf8').replace(/\0+$/, '')
+          continue
+        }
+
+        const name = pax.path ?? longName ?? header.name
+        const linkname = pax.linkpath ?? longLink ?? header.linkname
+        const size = pax.size !== undefined ? parseInt(pax.size, 10) : header.size
+        const mtime = new Date((pax.mtime !== undefined ? parseFloat(pax.mtime) : header.mtime) * 1000)
+        pax = {}
+        longName = null
+        longLink = null
+
+        // Whatever part of the data an entry leaves unread is skipped
+        const end = reader.position + size
+        await this.extractEntry(state, {
+          name,
+          type: header.type,
+          mode: header.mode,
+          mtime,
+          linkname,
+          size,
+          data: () => reader.chunks(size),
+        })
+        await reader.skip(end - reader.position)
+        await reader.skip(tarPadding(size).length)
+      }
+    } finally {
+      source.destroy()
+      file.destroy()
+    }
+  }
+
+  private async extractZip(handle: fsp.FileHandle, state: ExtractState): Promise<void> {
+    const entries = await readZipDirectory(handle, state.archiveSize)
+
+    for (const entry of entries) {
+      if (entry.type === 'file' && entry.method !== ZIP_STORED && entry.method !== ZIP_DEFLATED) {
+        addSkipped(state.result.skipped, { path: entry.name, reason: `Unsupported compression method ${entry.method}` })
+        continue
+      }
+
+      const start = await zipDataOffset(handle, entry)
+      const data = (): AsyncIterable<Buffer> => {
+        if (entry.compressedSize === 0) return Readable.from([])
+        const raw = handle.createReadStream({ autoClose: false, start, end: start + entry.compressedSize - 1 })
+        if (entry.method === ZIP_STORED) return raw
+        const inflate = createInflateRaw()
+        pipeline(raw, inflate, () => {})
+        return inflate
+      }
+
+      let linkname = ''
+      if (entry.type === 'symlink') {
+        if (entry.size > MAX_METADATA_SIZE) {
+          addSkipped(state.result.skipped, { path: entry.name, reason: 'Symlink target too long' })
+          continue
+        }
+        const parts: Buffer[] = []
+        for await (const part of data()) parts.push(part)
+        linkname = Buffer.concat(parts).toString('utf8')
+      }
+
+      await this.extractEntry(state, {
+        name: entry.name,
+        type: entry.type,
+        mode: entry.mode,
+        mtime: entry.mtime,
+        linkname,
+        size: entry.size,
+        crc: entry.crc,
+        data,
+      })
+      state.archiveBytesRead = start + entry.compressedSize
+      this.reportExtractProgress(state)
+    }
+  }
+
+  /**
+   * Check where an entry would go, creating its parent directories, and
+   * clear the way for it. Returns null (after noting why) when it must be skipped.
+   */
+  private async prepareTarget(state: ExtractState, name: string, type: EntryType): Promise<string | null> {
+    const skip = (reason: string): null => {
+      addSkipped(state.result.skipped, { path: name, reason })
+      return null
+    }
+
+    const parts = entryPathParts(name)
+    if (!parts) return skip('Path is outside the destination')
+    if (parts.length === 0) return null
+
+    let dir = state.root
+    for (const part of parts.slice(0, -1)) {
+      dir = path.join(dir, part)
+      if (state.safeDirs.has(dir)) continue
+      let stats: fs.Stats | null = null
+      try {
+        stats = await fsp.lstat(dir)
+      } catch {
+        await fsp.mkdir(dir)
+        state.createdDirs.add(dir)
+        state.result.directories++
+      }
+      if (stats && !stats.isDirectory()) {
+        return skip(stats.isSymbolicLink() ? 'Path goes through a symlink' : 'Parent is not a directory')
+      }
+      state.safeDirs.add(dir)
+    }
+
+    const target = path.join(dir, parts[parts.length - 1])
+    let existing: fs.Stats | null = null
+    try {
+      existing = await fsp.lstat(target)
+    } catch {
+      return target
+    }
+    if (type === 'directory' && existing.isDirectory()) return target
+    if (!state.overwrite) return skip('Already exists')
+    if (existing.isDirectory()) return skip('A directory is in the way')
+    // Removed rather than written through, in case it is a symlink
+    await fsp.unlink(target)
+    return target
+  }
+
+  private async extractEntry(state: ExtractState, entry: {
+    name: string
+    type: EntryType
+    mode: number
+    mtime: Date
+    linkname: string
+    size: number
+    crc?: number
+    data: () => AsyncIterable<Buffer>
+  }): Promise<void> {
+    state.entries++
+    if (entry.type === 'hardlink' || entry.type === 'other') {
+      addSkipped(state.result.skipped, {
+        path: entry.name,
+        reason: entry.type === 'hardlink' ? 'Hard links are not extracted' : 'Unsupported entry type',
+      })
+      return
+    }
+
+    const target = await this.prepareTarget(state, entry.name, entry.type)
+    if (!target) return
+
+    if (entry.type === 'directory') {
+      if (await fsp.mkdir(target, { recursive: true })) {
+        state.createdDirs.add(target)
+        state.result.directories++
+      }
+      state.safeDirs.add(target)
+      // Directories that were already there keep their mode
+      if (state.createdDirs.has(target)) {
+        state.directories.push({ path: target, mode: (entry.mode & 0o777) || 0o755, mtime: entry.mtime })
+      }
+      return
+    }
+
+    if (entry.type === 'symlink') {
+      if (!isSafeLinkTarget(state.root, target, entry.linkname)) {
+        addSkipped(state.result.skipped, { path: entry.name, reason: 'Symlink points outside the destination' })
+        return
+      }
+      await fsp.symlink(entry.linkname, target)
+      state.result.symlinks++
+      return
+    }
+
+    // "wx" fails rather than follow anything that appeared at the target meanwhile
+    const handle = await fsp.open(target, 'wx', 0o600)
+    let written = 0
+    let crc = 0
+    try {
+      for await (const data of entry.data()) {
+        written += data.length
+        if (written > entry.size) {
+          throw new Error(`Corrupt archive entry ${entry.name}: more data than its stated size`)
+        }
+        if (entry.crc !== undefined) crc = crc32(data, crc)
+        await handle.write(data)
+        state.result.bytes += data.length
+        this.reportExtractProgress(state)
+      }
+      if (written !== entry.size || (entry.crc !== undefined && crc !== entry.crc)) {
+        throw new Error(`Corrupt archive entry ${entry.name}: ${written !== entry.size ? 'size' : 'CRC'} does not match`)
+      }
+      await handle.chmod((entry.mode & 0o777) || 0o644)
+    } catch (err) {
+      await handle.close()
+      await fsp.rm(target, { force: true })
+      throw err
+    }
+    await handle.close()
+    await fsp.utimes(target, entry.mtime, entry.mtime).catch(() => {})
+    state.result.files++
+  }
+
+  private reportExtractProgress(state: ExtractState, force = false): void {
+    const now = Date.now()
+    if (!state.onProgress || (!force && now - state.reportedAt < PROGRESS_INTERVAL_MS)) return
+    state.reportedAt = now
+    state.onProgress({
+      destination: state.root,
+      entries: state.entries,
+      bytes: state.result.bytes,
+      archiveBytesRead: state.archiveBytesRead,
+      archiveSize: state.archiveSize,
+    })
+  }
+
+  private reportProgress(archive: Archive): void {
+    const progress: ArchiveProgress = {
+      archiveId: archive.archiveId,
+      entries: archive.entriesDone,
+      totalEntries: archive.entries.length,
+      bytesProcessed: archive.bytesProcessed,
+      totalBytes: archive.totalBytes,
+      bytesSent: archive.bytesSent,
+    }
+    for (const callback of this.progressCallbacks) {
+      callback(progress)
+    }
+  }
+
+  private cleanupIdle(): void {
+    const now = Date.now()
+    for (const archive of this.archives.values()) {
+      if (!archive.reading && now - archive.updatedAt > ARCHIVE_IDLE_MS) {
+        if (this.config.debug) {
+          console.log(chalk.gray(`Archive expired: ${archive.archiveId}`))
+        }
+        this.cancel(archive.archiveId)
+      }
+    }
+  }
+}
@@ -4,10 +4,32 @@
 
 import { config as dotenvConfig } from 'dotenv'
 import os from 'os'
+import { compileRedactPattern } from './redact.js'
 
 // Load .env file if exists
 dotenvConfig()
 
+/**
+ * Where terminal sessions live:
+ * - pty: inside the agent process (sessions end with the agent)
+ * - tmux: in a dedicated tmux server (sessions survive agent restarts)
+ * - auto: tmux when it is installed, pty otherwise
+ */
+export type SessionBackend = 'auto' | 'pty' | 'tmux'
+
+/**
+ * Per-session resource limits (0 = unlimited). Applied through cgroup v2
+ * when the agent can manage its own cgroup, rlimits otherwise.
+ */
+export interface SessionLimits {
+  /** CPU share in percent of one core (cgroup v2 only) */
+  cpuPercent: number
+  /** Memory in bytes */
+  memoryBytes: number
+  /** Number of processes */
+  maxProcesses: number
+}
+
 export interface AgentConfig {
   token: string
   serverUrl: string
@@ -16,6 +38,12 @@ export interface AgentConfig {
   maxReconnectDelay: number
   shell: string
   homeDir: string
+  sessionBackend: SessionBackend
+  maxSessions: number
+  maxScrollbackBytes: number
+  sessionLimits: SessionLimits
+  redact: boolean
+  redactPatterns: string[]
   debug: boolean
 }
 
@@ -23,6 +51,8 @@ const DEFAULT_SERVER_URL = 'https://cloud-forge.me'
 const DEFAULT_HEARTBEAT_INTERVAL = 30000 // 30 seconds
 const DEFAULT_RECONNECT_DELAY = 1000 // 1 second
 const MAX_RECONNECT_DELAY = 30000 // 30 seconds
+const DEFAULT_MAX_SESSIONS = 32
+const DEFAULT_MAX_SCROLLBACK_MB = 64
 
 /**
  * Get the default shell for the current platform
@@ -34,12 +64,32 @@ function getDefaultShell(): string {
   return process.env.SHELL || '/bin/bash'
 }
 
+/**
+ * Parse a non-negative integer option
+ */
+function parseCount(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined || value === '') return fallback
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Invalid ${name} "${value}". Expected a non-negative integer.`)
+  }
+  return parsed
+}
+
 /**
  * Create agent configuration from environment and CLI options
  */
 export function createConfig(options: {
   token?: string
   serverUrl?: string
+  sessionBackend?: string
+  maxSessions?: string
+  maxScrollback?: string
+  sessionCpu?: string
+  sessionMemory?: string
+  sessionProcesses?: string
+  redact?: boolean
+  redactPatterns?: string[]
   debug?: boolean
 }): AgentConfig {
   const token = options.token || process.env.CLOUDFORGE_TOKEN
@@ -53,6 +103,30 @@ export function createConfig(options: {
     throw new Error('Invalid token format. Token should start with "cf_" followed by 32 hex characters.')
   }
 
+  const sessionBackend = options.sessionBackend || process.env.CLOUDFORGE_SESSION_BACKEND || 'auto'
+  if (!['auto', 'pty', 'tmux'].includes(sessionBackend)) {
+    throw new Error(`Invalid session backend "${sessionBackend}". Use "auto", "pty" or "tmux".`)
+  }
+
+  const env = process.env
+  const mb = 1024 * 1024
+
+  // Extra redaction regexes: repeated --redact-pattern flags, or a JSON array in the environment
+  let redactPatterns = options.redactPatterns || []
+  if (redactPatterns.length === 0 && env.CLOUDFORGE_REDACT_PATTERNS) {
+    // A broken setting must stop the agent rather than leave secrets unmasked
+    const invalid = 'Invalid CLOUDFORGE_REDACT_PATTERNS. Expected a JSON array of regular expressions.'
+    try {
+      redactPatterns = JSON.parse(env.CLOUDFORGE_REDACT_PATTERNS)
+    } catch {
+      throw new Error(invalid)
+    }
+    if (!Array.isArray(redactPatterns) || !redactPatterns.every(p => typeof p === 'string')) {
+      throw new Error(invalid)
+    }
+  }
+  redactPatterns.forEach(compileRedactPattern)
+
   return {
     token,
     serverUrl: options.serverUrl || process.env.CLOUDFORGE_SERVER_URL || DEFAULT_SERVER_URL,
@@ -61,6 +135,16 @@ export function createConfig(options: {
     maxReconnectDelay: MAX_RECONNECT_DELAY,
     shell: getDefaultShell(),
     homeDir: os.homedir(),
+    sessionBackend: sessionBackend as SessionBackend,
+    maxSessions: parseCount(options.maxSessions ?? env.CLOUDFORGE_MAX_SESSIONS, 'max sessions', DEFAULT_MAX_SESSIONS),
+    maxScrollbackBytes: parseCount(options.maxScrollback ?? env.CLOUDFORGE_MAX_SCROLLBACK_MB, 'max scrollback', DEFAULT_MAX_SCROLLBACK_MB) * mb,
+    sessionLimits: {
+      cpuPercent: parseCount(options.sessionCpu ?? env.CLOUDFORGE_SESSION_CPU_PERCENT, 'session CPU limit', 0),
+      memoryBytes: parseCount(options.sessionMemory ?? env.CLOUDFORGE_SESSION_MEMORY_MB, 'session memory limit', 0) * mb,
+      maxProcesses: parseCount(options.sessionProcesses ?? env.CLOUDFORGE_SESSION_MAX_PROCESSES, 'session process limit', 0),
+    },
+    redact: options.redact !== false && env.CLOUDFORGE_REDACT !== 'false',
+    redactPatterns,
     debug: options.debug || process.env.CLOUDFORGE_DEBUG === 'true',
   }
 }
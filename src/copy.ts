@@ -0,0 +1,447 @@
+/**
+ * CloudForge Agent Copy
+ * Copies files and directory trees, keeping modes and symlinks, with a
+ * policy for destinations that already exist
+ */
+
+import * as fs from 'fs'
+import * as fsp from 'fs/promises'
+import * as path from 'path'
+import { randomBytes, randomUUID } from 'crypto'
+import chalk from 'chalk'
+import type { AgentConfig } from './config.js'
+import { TEMP_SUFFIX, describeWriteError, type FileManager } from './files.js'
+import { walkFiles } from './ignore.js'
+
+// Files at least this large are copied in pieces, so progress and cancellation reach inside them
+const LARGE_FILE_SIZE = 16 * 1024 * 1024
+const COPY_CHUNK_SIZE = 1024 * 1024
+
+// Progress is reported at most this often
+const PROGRESS_INTERVAL_MS = 250
+
+// At most this many skipped entries are listed
+const MAX_SKIPPED = 1000
+
+// Errors that skip one entry instead of ending the copy
+const ENTRY_ERRORS = new Set(['EACCES', 'EPERM', 'ENOENT'])
+
+/**
+ * What to do when something is already at the destination: fail, replace
+ * it, leave it alone, or copy to "name (copy)" next to it. Directories are
+ * merged, except that "rename" gives a copied tree a new name.
+ */
+export type ConflictPolicy = 'fail' | 'overwrite' | 'skip' | 'rename'
+
+export interface CopyOptions {
+  /** Default "fail" */
+  conflict?: ConflictPolicy
+}
+
+export interface CopySkipped {
+  path: string
+  reason: string
+}
+
+export interface CopyResult {
+  copyId: string
+  from: string
+  /** Where the copy went (differs from the requested path after a rename) */
+  path: string
+  files: number
+  directories: number
+  symlinks: number
+  bytes: number
+  skipped: CopySkipped[]
+  /** Stopped early by cancel; what was copied so far stays */
+  cancelled: boolean
+}
+
+export interface CopyProgress {
+  copyId: string
+  path: string
+  /** Files and symlinks done (copied or skipped) */
+  files: number
+  totalFiles: number
+  bytesCopied: number
+  totalBytes: number
+}
+
+interface CopyEntry {
+  source: string
+  /** Path below the copied item ('' for the item itself) */
+  relative: string
+  type: 'file' | 'directory' | 'symlink'
+  mode: number
+  size: number
+}
+
+interface CopyJob {
+  copyId: string
+  policy: ConflictPolicy
+  result: CopyResult
+  cancelled: boolean
+  /** Files and symlinks dealt with, copied or skipped */
+  filesDone: number
+  totalFiles: number
+  totalBytes: number
+  reportedAt: number
+}
+
+function validateCopyId(copyId: string): string {
+  if (!/^[A-Za-z0-9_-]{1,64}$/.test(copyId)) {
+    throw new Error(`Invalid copy ID: ${copyId}`)
+  }
+  return copyId
+}
+
+async function lstatOrNull(target: string): Promise<fs.Stats | null> {
+  try {
+    return await fsp.lstat(target)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * First of "name (copy).ext", "name (copy 2).ext", ... that does not exist
+ */
+async function copyName(target: string, isDir: boolean): Promise<string> {
+  const ext = isDir ? '' : path.extname(target)
+  const base = target.slice(0, target.length - ext.length)
+  for (let n = 1; ; n++) {
+    const candidate = `${base} (copy${n > 1 ? ` ${n}` : ''})${ext}`
+    if (!(await lstatOrNull(candidate))) return candidate
+  }
+}
+
+function tempPath(target: string): string {
+  return path.join(path.dirname(target), `.${path.basename(target)}.${randomBytes(6).toString('hex')}${TEMP_SUFFIX}`)
+}
+
+export class CopyManager {
+  private config: AgentConfig
+  private fileManager: FileManager
+  private jobs = new Map<string, CopyJob>()
+  private progressCallbacks: ((progress: CopyProgress) => void)[] = []
+
+  constructor(config: AgentConfig, fileManager: FileManager) {
+    this.config = config
+    this.fileManager = fileManager
+  }
+
+  /**
+   * Register a listener for progress while copying
+   */
+  onProgress(callback: (progress: CopyProgress) => void): void {
+    this.progressCallbacks.push(callback)
+  }
+
+  /**
+   * Copy a file, symlink or directory tree to toPath (the path of the copy,
+   * not a directory to copy into). Symlinks are copied as symlinks; entries
+   * that cannot be read are skipped and listed, and sockets, FIFOs and
+   * devices inside a tree are left out.
+   */
+  async copy(fromPath: string, toPath: string, options: CopyOptions = {}, copyId: string = randomUUID()): Promise<CopyResult> {
+    validateCopyId(copyId)
+    if (this.jobs.has(copyId)) {
+      throw new Error(`Copy ${copyId} is already running`)
+    }
+    const policy = options.conflict || 'fail'
+    if (!['fail', 'overwrite', 'skip', 'rename'].includes(policy)) {
+      throw new Error(`Unknown conflict policy: ${policy}`)
+    }
+
+    const from = this.fileManager.resolvePath(fromPath)
+    let to = this.fileManager.resolvePath(toPath)
+
+    if (this.config.debug) {
+      console.log(chalk.gray(`Copy: ${from} -> ${to}, conflict=${policy}`))
+    }
+
+    const sourceStats = await fsp.lstat(from)
+    const isDir = sourceStats.isDirectory()
+    if (!isDir && !sourceStats.isFile() && !sourceStats.isSymbolicLink()) {
+      throw new Error(`Cannot copy special file: ${from}`)
+    }
+
+    const job: CopyJob = {
+      copyId,
+      policy,
+      result: { copyId, from, path: to, files: 0, directories: 0, symlinks: 0, bytes: 0, skipped: [], cancelled: false },
+      cancelled: false,
+      filesDone: 0,
+      totalFiles: 0,
+      totalBytes: 0,
+      reportedAt: 0,
+    }
+
+    const existing = await lstatOrNull(to)
+    if (existing) {
+      const merge = isDir && existing.isDirectory() && (policy === 'overwrite' || policy === 'skip')
+      if (policy === 'rename') {
+        to = await copyName(to, isDir)
+        job.result.path = to
+      } else if (policy === 'fail') {
+        throw new Error(`Destination already exists: ${to}`)
+      } else if (!merge && from === to) {
+        throw new Error('Source and destination are the same')
+      } else if (!merge && policy === 'skip') {
+        job.result.skipped.push({ path: to, reason: 'Already exists' })
+        return job.result
+      } else if (!merge && existing.isDirectory()) {
+        throw new Error(`A directory is in the way: ${to}`)
+      }
+    }
+
+    if (isDir) {
+      // Compare real paths, so a symlinked parent cannot hide the overlap
+      const realFrom = await fsp.realpath(from)
+      const realParent = await fsp.realpath(path.dirname(to)).catch(() => path.dirname(to))
+      const realTo = path.join(realParent, path.basename(to))
+      if (realTo === realFrom || realTo.startsWith(realFrom + path.sep)) {
+        throw new Error('Cannot copy a directory into itself')
+      }
+    }
+
+    this.jobs.set(copyId, job)
+    try {
+      const entries = await this.listEntries(from, sourceStats)
+      for (const entry of entries) {
+        if (entry.type !== 'directory') {
+          job.totalFiles++
+          job.totalBytes += entry.size
+        }
+      }
+      await fsp.mkdir(path.dirname(to), { recursive: true })
+      await this.copyEntries(job, entries, to)
+      this.reportProgress(job, true)
+      return job.result
+    } finally {
+      this.jobs.delete(copyId)
+    }
+  }
+
+  /**
+   * Stop a running copy. A large file being copied is abandoned part way;
+   * anything smaller is finished first.
+   */
+  cancel(copyId: string): boolean {
+    const job = this.jobs.get(copyId)
+    if (!job) return false
+
+    if (this.config.debug) {
+      console.log(chalk.gray(`Copy cancel: ${copyId}`))
+    }
+
+    job.cancelled = true
+    return true
+  }
+
+  /**
+   * Stop all running copies
+   */
+  cancelAll(): void {
+    for (const copyId of this.jobs.keys()) {
+      this.cancel(copyId)
+    }
+  }
+
+  /**
+   * Everything to copy, each directory ahead of its contents
+   */
+  private async listEntries(from: string, stats: fs.Stats): Promise<CopyEntry[]> {
+    const toEntry = (source: string, entryStats: fs.Stats): CopyEntry => ({
+      source,
+      relative: path.relative(from, source),
+      type: entryStats.isDirectory() ? 'directory' : entryStats.isSymbolicLink() ? 'symlink' : 'file',
+      mode: entryStats.mode & 0o7777,
+      size: entryStats.isFile() ? entryStats.size : 0,
+    })
+    if (!stats.isDirectory()) return [toEntry(from, stats)]
+
+    const found: string[] = []
+    for await (const filePath of walkFiles(from, {
+      gitignore: false,
+      hidden: true,
+      symlinks: true,
+      onDirectory: dir => found.push(dir),
+    })) {
+      found.push(filePath)
+    }
+
+    const entries: CopyEntry[] = []
+    for (const source of found) {
+      const entryStats = await lstatOrNull(source)
+      // Removed since it was listed
+      if (entryStats) entries.push(toEntry(source, entryStats))
+    }
+    return entries
+  }
+
+  private async copyEntries(job: CopyJob, entries: CopyEntry[], to: string): Promise<void> {
+    // Directories skipped because something else is in the way; their contents are skipped too
+    const skippedDirs = new Set<string>()
+    // Modes are applied to new directories last, so a read-only one does not block its contents
+    const created: { path: string; mode: number }[] = []
+
+    for (const entry of entries) {
+      if (job.cancelled) {
+        job.result.cancelled = true
+        break
+      }
+      // The item itself is '.', like the dirname of its children
+      const relative = entry.relative || '.'
+      if (relative !== '.' && skippedDirs.has(path.dirname(relative))) {
+        if (entry.type === 'directory') skippedDirs.add(relative)
+        else job.filesDone++
+        continue
+      }
+
+      const target = entry.relative ? path.join(to, entry.relative) : to
+      try {
+        if (entry.type === 'directory') {
+          const existing = await lstatOrNull(target)
+          if (existing?.isDirectory()) continue
+          if (existing && job.policy !== 'overwrite') {
+            this.skip(job, entry, 'A file is in the way')
+            skippedDirs.add(relative)
+            continue
+          }
+          if (existing) await fsp.unlink(target)
+          await fsp.mkdir(target, { mode: 0o700 })
+          created.push({ path: target, mode: entry.mode })
+          job.result.directories++
+        } else {
+          const copied = await this.copyItem(job, entry, target)
+          if (!copied && job.cancelled) {
+            // Stopped part way through this file; there may be no next entry to notice
+            job.result.cancelled = true
+            break
+          }
+          if (copied) {
+            job.result[entry.type === 'symlink' ? 'symlinks' : 'files']++
+          }
+          job.filesDone++
+          this.reportProgress(job)
+        }
+      } catch (err) {
+        const code = (err as NodeJS.ErrnoException).code
+        if (!code || !ENTRY_ERRORS.has(code)) throw describeWriteError(err, target)
+        this.skip(job, entry, err instanceof Error ? err.message : String(err))
+        if (entry.type === 'directory') skippedDirs.add(relative)
+        else job.filesDone++
+      }
+    }
+
+    for (const dir of created.reverse()) {
+      await fsp.chmod(dir.path, dir.mode).catch(() => {})
+    }
+  }
+
+  /**
+   * Copy one file or symlink, applying the conflict policy. Returns false
+   * when it was skipped or the copy was cancelled part way.
+   */
+  private async copyItem(job: CopyJob, entry: CopyEntry, requested: string): Promise<boolean> {
+    let target = requested
+    const existing = await lstatOrNull(target)
+    if (existing) {
+      if (existing.isDirectory()) {
+        this.skip(job, entry, 'A directory is in the way')
+        return false
+      }
+      if (job.policy === 'skip') {
+        this.skip(job, entry, 'Already exists')
+        return false
+      }
+      if (job.policy === 'fail') {
+        throw new Error(`Destination already exists: ${target}`)
+      }
+      if (job.policy === 'rename') {
+        target = await copyName(target, false)
+      }
+    }
+
+    // Built under a temporary name and renamed into place, which replaces
+    // an existing file or symlink rather than writing through it
+    const temp = tempPath(target)
+    try {
+      if (entry.type === 'symlink') {
+        await fsp.symlink(await fsp.readlink(entry.source), temp)
+      } else {
+        if (!(await this.copyData(job, entry, temp))) {
+          await fsp.rm(temp, { force: true })
+          return false
+        }
+        await fsp.chmod(temp, entry.mode)
+      }
+      await fsp.rename(temp, target)
+    } catch (err) {
+      await fsp.rm(temp, { force: true })
+      throw err
+    }
+    return true
+  }
+
+  /**
+   * Copy a file's contents. Small files go through copyFile (which can use
+   * copy-on-write clones); large ones are copied in pieces so progress and
+   * cancellation work inside them. Returns false if cancelled.
+   */
+  private async copyData(job: CopyJob, entry: CopyEntry, temp: string): Promise<boolean> {
+    if (entry.size < LARGE_FILE_SIZE) {
+      await fsp.copyFile(entry.source, temp, fs.constants.COPYFILE_EXCL | fs.constants.COPYFILE_FICLONE)
+      job.result.bytes += entry.size
+      return true
+    }
+
+    const input = await fsp.open(entry.source, 'r')
+    try {
+      const output = await fsp.open(temp, 'wx', 0o600)
+      try {
+        const buffer = Buffer.alloc(COPY_CHUNK_SIZE)
+        let position = 0
+        for (;;) {
+          if (job.cancelled) return false
+          const { bytesRead } = await input.read(buffer, 0, buffer.length, position)
+          if (bytesRead === 0) break
+          await output.write(buffer, 0, bytesRead, position)
+          position += bytesRead
+          job.result.bytes += bytesRead
+          this.reportProgress(job)
+        }
+      } finally {
+        await output.close()
+      }
+    } finally {
+      await input.close()
+    }
+    return true
+  }
+
+  private skip(job: CopyJob, entry: CopyEntry, reason: string): void {
+    if (job.result.skipped.length < MAX_SKIPPED) {
+      job.result.skipped.push({ path: entry.source, reason })
+    }
+  }
+
+  private reportProgress(job: CopyJob, force = false): void {
+    const now = Date.now()
+    if (!force && now - job.reportedAt < PROGRESS_INTERVAL_MS) return
+    job.reportedAt = now
+
+    const progress: CopyProgress = {
+      copyId: job.copyId,
+      path: job.result.path,
+      files: job.filesDone,
+      totalFiles: job.totalFiles,
+      bytesCopied: job.result.bytes,
+      totalBytes: job.totalBytes,
+    }
+    for (const callback of this.progressCallbacks) {
+      callback(progress)
+    }
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * CloudForge Agent Exec Manager
+ * Runs non-interactive commands without a PTY, streaming stdout and stderr separately
+ */
+
+import { spawn, type ChildProcess } from 'child_process'
+import chalk from 'chalk'
+import type { AgentConfig } from './config.js'
+import { buildProcessEnv } from './terminal.js'
+
+// Grace period between SIGTERM and SIGKILL when a command times out or is cancelled
+const KILL_GRACE_MS = 5000
+
+export interface ExecOptions {
+  argv: string[]
+  cwd: string
+  env?: Record<string, string>
+  /** Variables removed from the agent's environment in addition to DEFAULT_ENV_DENYLIST */
+  envDenylist?: string[]
+  timeoutMs?: number
+  input?: string
+}
+
+export interface ExecResult {
+  exitCode: number | null
+  signal: string | null
+  timedOut: boolean
+  cancelled: boolean
+  durationMs: number
+  error?: string
+}
+
+export interface ExecHandlers {
+  onOutput: (stream: 'stdout' | 'stderr', data: string) => void
+  onExit: (result: ExecResult) => void
+}
+
+interface RunningExec {
+  child: ChildProcess
+  timedOut: boolean
+  cancelled: boolean
+  killTimer: ReturnType<typeof setTimeout> | null
+}
+
+export class ExecManager {
+  private config: AgentConfig
+  private running = new Map<string, RunningExec>()
+
+  constructor(config: AgentConfig) {
+    this.config = config
+  }
+
+  /**
+   * Start a command. Returns the child's pid.
+   */
+  run(execId: string, options: ExecOptions, handlers: ExecHandlers): number | undefined {
+    if (this.running.has(execId)) {
+      throw new Error(`Exec ${execId} already running`)
+    }
+    if (!Array.isArray(options.argv) || options.argv.length === 0) {
+      throw new Error('argv must be a non-empty array')
+    }
+
+    if (this.config.debug) {
+      console.log(chalk.gray(`Exec run: ${execId}, argv=${JSON.stringify(options.argv)}, cwd=${options.cwd}`))
+    }
+
+    const startedAt = Date.now()
+    const [file, ...args] = options.argv
+    const child = spawn(file, args, {
+      cwd: options.cwd,
+      env: buildProcessEnv(options.env, options.envDenylist),
+      stdio: ['pipe', 'pipe', 'pipe'],
+      // Own process group, so a timeout or cancel also reaches grandchildren
+      detached: process.platform !== 'win32',
+    })
+
+    const entry: RunningExec = { child, timedOut: false, cancelled: false, killTimer: null }
+    this.running.set(execId, entry)
+
+    let timeoutTimer: ReturnType<typeof setTimeout> | null = null
+    if (options.timeoutMs && options.timeoutMs > 0) {
+      timeoutTimer = setTimeout(() => {
+        entry.timedOut = true
+        this.terminate(entry)
+      }, options.timeoutMs)
+    }
+
+    child.stdout?.setEncoding('utf8')
+    child.stderr?.setEncoding('utf8')
+    child.stdout?.on('data', (data: string) => handlers.onOutput('stdout', data))
+    child.stderr?.on('data', (data: string) => handlers.onOutput('stderr', data))
+
+    // Ignore EPIPE when the command doesn't read its input
+    child.stdin?.on('error', () => {})
+    if (options.input !== undefined) {
+      child.stdin?.end(options.input)
+    } else {
+      child.stdin?.end()
+    }
+
+    let finished = false
+    const finish = (exitCode: number | null, signal: string | null, error?: string) => {
+      if (finished) return
+      finished = true
+      if (timeoutTimer) clearTimeout(timeoutTimer)
+      if (entry.killTimer) clearTimeout(entry.killTimer)
+      this.running.delete(execId)
+
+      if (this.config.debug) {
+        console.log(chalk.gray(`Exec exit: ${execId}, code=${exitCode}, signal=${signal}`))
+      }
+
+      handlers.onExit({
+        exitCode,
+        signal,
+        timedOut: entry.timedOut,
+        cancelled: entry.cancelled,
+        durationMs: Date.now() - startedAt,
+        error,
+      })
+    }
+
+    // 'close' fires after stdout/stderr are drained
+    child.on('close', (code, signal) => finish(code, signal))
+    child.on('error', (err) => finish(null, null, err.message))
+
+    return child.pid
+  }
+
+  /**
+   * Cancel a running command
+   */
+  cancel(execId: string, signal: NodeJS.Signals = 'SIGTERM'): boolean {
+    const entry = this.running.get(execId)
+    if (!entry) return false
+
+    if (this.config.debug) {
+      console.log(chalk.gray(`Exec cancel: ${execId}, signal=${signal}`))
+    }
+
+    entry.cancelled = true
+    this.terminate(entry, signal)
+    return true
+  }
+
+  /**
+   * Signal the command's process group, escalating to SIGKILL after a grace period
+   */
+  private terminate(entry: RunningExec, signal: NodeJS.Signals = 'SIGTERM'): void {
+    this.signal(entry.child, signal)
+    if (!entry.killTimer && signal !== 'SIGKILL') {
+      entry.killTimer = setTimeout(() => this.signal(entry.child, 'SIGKILL'), KILL_GRACE_MS)
+    }
+  }
+
+  private signal(child: ChildProcess, signal: NodeJS.Signals): void {
+    if (child.pid === undefined || child.exitCode !== null) return
+    try {
+      if (process.platform !== 'win32') {
+        process.kill(-child.pid, signal)
+      } else {
+        child.kill(signal)
+      }
+    } catch {
+      // Already gone
+    }
+  }
+
+  /**
+   * Kill all running commands
+   */
+  killAll(): void {
+    for (const [execId, entry] of this.running) {
+      if (this.config.debug) {
+        console.log(chalk.gray(`Killing exec: ${execId}`))
+      }
+      entry.cancelled = true
+      this.signal(entry.child, 'SIGKILL')
+    }
+  }
+
+  /**
+   * Get the number of running commands
+   */
+  get count(): number {
+    return this.running.size
+  }
+}
@@ -0,0 +1,493 @@
+/**
+ * CloudForge Agent File Index
+ * Keeps the file paths under each project root in memory, updated from
+ * filesystem events, and answers fuzzy "quick open" queries against them
+ */
+
+import * as fs from 'fs'
+import * as fsp from 'fs/promises'
+import * as path from 'path'
+import chalk from 'chalk'
+import type { AgentConfig } from './config.js'
+import type { FileManager } from './files.js'
+import { ALWAYS_SKIPPED, IgnoreRules, walkFiles } from './ignore.js'
+
+// Most roots indexed at once; the least recently queried one is dropped first
+const MAX_INDEXES = 8
+
+// Indexes nobody has queried for this long are dropped
+const INDEX_IDLE_MS = 30 * 60_000
+
+// Bounds on memory and inotify watches per root
+const MAX_INDEXED_FILES = 200_000
+const MAX_WATCHED_DIRECTORIES = 10_000
+
+// Filesystem events are applied in batches this often
+const UPDATE_INTERVAL_MS = 100
+
+// A query for a new root waits this long for indexing, so small projects get full results right away
+const WARMUP_WAIT_MS = 250
+
+const DEFAULT_FIND_RESULTS = 50
+const MAX_FIND_RESULTS = 500
+
+// Characters that start a new word in a path, for scoring
+const WORD_SEPARATORS = '/\\_-. '
+
+export type IndexState = 'warming' | 'ready'
+
+export interface IndexStatus {
+  root: string
+  state: IndexState
+  files: number
+  /** The index hit MAX_INDEXED_FILES or MAX_WATCHED_DIRECTORIES, so it may be incomplete or stale */
+  limited: boolean
+}
+
+export interface FindMatch {
+  path: string
+  relativePath: string
+  score: number
+  /** Indices in relativePath of the matched query characters */
+  positions: number[]
+}
+
+export interface FindResult {
+  /** Directory the query was for; relativePath is relative to it */
+  root: string
+  query: string
+  matches: FindMatch[]
+  index: IndexStatus
+}
+
+/**
+ * Score a query against a path, matching from a given start index.
+ * Rewards matches at word starts, camelCase humps, runs of consecutive
+ * characters and the file name; penalises gaps.
+ */
+function scoreFrom(text: string, lower: string, query: string, start: number, nameStart: number): { score: number; positions: number[] } | null {
+  // Find where the earliest complete match ends...
+  let end = -1
+  let qi = 0
+  for (let i = start; i < lower.length && qi < query.length; i++) {
+    if (lower[i] === query[qi]) {
+      qi++
+      end = i
+    }
+  }
+  if (qi < query.length) return null
+
+  // ...then match backwards from there for the tightest window
+  const positions: number[] = new Array(query.length)
+  qi = query.length - 1
+  for (let i = end; qi >= 0; i--) {
+    if (lower[i] === query[qi]) positions[qi--] = i
+  }
+
+  let score = 0
+  for (let k = 0; k < positions.length; k++) {
+    const position = positions[k]
+    const previous = position > 0 ? text[position - 1] : ''
+    score += 1
+    if (position === 0 || WORD_SEPARATORS.includes(previous)) {
+      score += 8
+    } else if (text[position] !== lower[position] && previous === previous.toLowerCase() && previous !== previous.toUpperCase()) {
+      score += 6
+    }
+    if (k > 0 && positions[k - 1] === position - 1) score += 5
+    if (position >= nameStart) score += 2
+  }
+  score -= positions[positions.length - 1] - positions[0] + 1 - query.length
+  return { score, positions }
+}
+
+/**
+ * Fuzzy-match a query (lowercase, no spaces) against a relative path
+ */
+function fuzzyMatch(relativePath: string, query: string): { score: number; positions: number[] } | null {
+  const lower = relativePath.toLowerCase()
+  const nameStart = relativePath.lastIndexOf('/') + 1
+  const best = scoreFrom(relativePath, lower, query, 0, nameStart)
+  if (!best || nameStart === 0) return best
+  // A match inside the file name alone usually beats one spread over directories
+  const inName = scoreFrom(relativePath, lower, query, nameStart, nameStart)
+  return inName && inName.score > best.score ? inName : best
+}
+
+interface IndexedDirectory {
+  /** Rules in effect inside the directory, including its own .gitignore */
+  rules: IgnoreRules
+  watcher: fs.FSWatcher | null
+}
+
+/**
+ * The file paths under one root. Each directory has its own fs.watch, so
+ * changes are applied without walking the tree again; a changed .gitignore
+ * rebuilds the whole index.
+ */
+class ProjectIndex {
+  readonly root: string
+  state: IndexState = 'warming'
+  limited = false
+  lastUsed = Date.now()
+  /** Paths relative to root, with forward slashes */
+  readonly files = new Set<string>()
+  ready: Promise<void> = Promise.resolve()
+  private directories = new Map<string, IndexedDirectory>()
+  private pending = new Map<string, Set<string> | null>()
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private updating = false
+  private generation = 0
+  private closed = false
+  private onReady: (index: ProjectIndex) => void
+
+  constructor(root: string, onReady: (index: ProjectIndex) => void) {
+    this.root = root
+    this.onReady = onReady
+  }
+
+  get status(): IndexStatus {
+    return { root: this.root, state: this.state, files: this.files.size, limited: this.limited }
+  }
+
+  /**
+   * Index the whole tree from scratch
+   */
+  build(): Promise<void> {
+    const generation = ++this.generation
+    for (const directory of this.directories.values()) {
+      directory.watcher?.close()
+    }
+    this.directories.clear()
+    this.pending.clear()
+    this.files.clear()
+    this.limited = false
+    this.state = 'warming'
+
+    this.ready = this.addTree(this.root, IgnoreRules.empty, generation)
+      .catch(() => {})
+      .then(() => {
+        if (generation !== this.generation || this.closed) return
+        this.state = 'ready'
+        this.onReady(this)
+      })
+    return this.ready
+  }
+
+  close(): void {
+    this.closed = true
+    this.generation++
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    for (const directory of this.directories.values()) {
+      directory.watcher?.close()
+    }
+    this.directories.clear()
+    this.pending.clear()
+    this.files.clear()
+  }
+
+  private relative(fullPath: string): string {
+    return path.relative(this.root, fullPath).split(path.sep).join('/')
+  }
+
+  /**
+   * Add the files below a directory, watching each directory on the way
+   */
+  private async addTree(dir: string, rulesAbove: IgnoreRules, generation: number): Promise<void> {
+    const stale = () => this.closed || generation !== this.generation
+    for await (const filePath of walkFiles(dir, {
+      hidden: true,
+      rules: rulesAbove,
+      shouldStop: () => stale() || this.files.size >= MAX_INDEXED_FILES,
+      onDirectory: (visited, rules) => this.watchDirectory(visited, rules),
+    })) {
+      if (stale()) return
+      if (this.files.size >= MAX_INDEXED_FILES) {
+        this.limited = true
+        return
+      }
+      this.files.add(this.relative(filePath))
+    }
+  }
+
+  private watchDirectory(dir: string, rules: IgnoreRules): void {
+    const existing = this.directories.get(dir)
+    if (existing) {
+      existing.rules = rules
+      return
+    }
+
+    let watcher: fs.FSWatcher | null = null
+    if (this.directories.size < MAX_WATCHED_DIRECTORIES) {
+      try {
+        watcher = fs.watch(dir, { persistent: false }, (_eventType, filename) => {
+          this.queue(dir, filename ? filename.toString() : null)
+        })
+        watcher.on('error', () => {
+          watcher?.close()
+          const directory = this.directories.get(dir)
+          if (directory) directory.watcher = null
+        })
+      } catch {
+        // Unreadable, or out of inotify watches
+        watcher = null
+      }
+    }
+    if (!watcher) this.limited = true
+    this.directories.set(dir, { rules, watcher })
+  }
+
+  /**
+   * Forget a directory and everything below it
+   */
+  private removeTree(dir: string): void {
+    const relativeDir = this.relative(dir)
+    const prefix = relativeDir ? relativeDir + '/' : ''
+    for (const file of this.files) {
+      if (file.startsWith(prefix)) this.files.delete(file)
+    }
+    for (const [watched, directory] of this.directories) {
+      if (watched === dir || watched.startsWith(dir + path.sep)) {
+        directory.watcher?.close()
+        this.directories.delete(watched)
+      }
+    }
+  }
+
+  private queue(dir: string, name: string | null): void {
+    if (this.closed) return
+    const names = this.pending.get(dir)
+    if (name === null) {
+      this.pending.set(dir, null)
+    } else if (names === undefined) {
+      this.pending.set(dir, new Set([name]))
+    } else if (names !== null) {
+      names.add(name)
+    }
+    if (!this.timer) {
+      this.timer = setTimeout(() => this.update(), UPDATE_INTERVAL_MS)
+    }
+  }
+
+  /**
+   * Apply queued filesystem events
+   */
+  private async update(): Promise<void> {
+    this.timer = null
+    if (this.updating) {
+      // Picked up again once the current update is done
+      return
+    }
+    this.updating = true
+    const generation = this.generation
+    const pending = this.pending
+    this.pending = new Map()
+
+    try {
+      for (const [dir, names] of pending) {
+        if (generation !== this.generation) return
+        const directory = this.directories.get(dir)
+        if (!directory) continue
+
+        // Ignore rules changed, so any indexed path may now be in or out
+        if (names !== null && names.has('.gitignore')) {
+          this.build()
+          return
+        }
+
+        // No file name given: reindex the directory
+        if (names === null) {
+          const above = dir === this.root ? IgnoreRules.empty : this.directories.get(path.dirname(dir))?.rules
+          if (!above) continue
+          this.removeTree(dir)
+          await this.addTree(dir, above, generation)
+          continue
+        }
+
+        for (const name of names) {
+          if (ALWAYS_SKIPPED.has(name)) continue
+          const fullPath = path.join(dir, name)
+          let stats: fs.Stats | null = null
+          try {
+            stats = await fsp.lstat(fullPath)
+          } catch {
+            // Gone
+          }
+
+          // Only a path that was an indexed directory has a tree to forget
+          if ((!stats || !stats.isDirectory()) && this.directories.has(fullPath)) {
+            this.removeTree(fullPath)
+          }
+          if (stats?.isFile() && !directory.rules.ignores(fullPath, false)) {
+            if (this.files.size >= MAX_INDEXED_FILES) {
+              this.limited = true
+            } else {
+              this.files.add(this.relative(fullPath))
+            }
+          } else {
+            this.files.delete(this.relative(fullPath))
+            if (stats?.isDirectory() && !this.directories.has(fullPath) && !directory.rules.ignores(fullPath, true)) {
+              await this.addTree(fullPath, directory.rules, generation)
+            }
+          }
+        }
+      }
+    } finally {
+      this.updating = false
+      if (this.pending.size > 0 && !this.closed && !this.timer) {
+        this.timer = setTimeout(() => this.update(), UPDATE_INTERVAL_MS)
+      }
+    }
+  }
+}
+
+export class FileIndexManager {
+  private config: AgentConfig
+  private fileManager: FileManager
+  private indexes = new Map<string, ProjectIndex>()
+  // Indexes being started, so concurrent requests share one
+  private starting = new Map<string, Promise<ProjectIndex>>()
+  private statusCallbacks: ((status: IndexStatus) => void)[] = []
+
+  constructor(config: AgentConfig, fileManager: FileManager) {
+    this.config = config
+    this.fileManager = fileManager
+
+    // Drop indexes nobody is using every minute
+    setInterval(() => this.dropIdle(), 60_000).unref()
+  }
+
+  /**
+   * Register a listener for when an index finishes (re)building
+   */
+  onStatus(callback: (status: IndexStatus) => void): void {
+    this.statusCallbacks.push(callback)
+  }
+
+  /**
+   * Fuzzy-find files under a directory. The first query for a root starts
+   * indexing it; until that finishes, results cover only what has been
+   * indexed so far and index.state is 'warming'.
+   */
+  async find(root: string | undefined, query: string, limit = DEFAULT_FIND_RESULTS): Promise<FindResult> {
+    const resolvedRoot = this.fileManager.resolvePath(root || this.config.homeDir)
+    const index = await this.getIndex(resolvedRoot)
+    index.lastUsed = Date.now()
+
+    if (index.state === 'warming') {
+      await Promise.race([index.ready, new Promise(resolve => setTimeout(resolve, WARMUP_WAIT_MS))])
+    }
+
+    const normalized = query.replace(/\s+/g, '').toLowerCase()
+    const count = Math.min(Math.max(Math.floor(limit) || DEFAULT_FIND_RESULTS, 1), MAX_FIND_RESULTS)
+    // A root inside an indexed one is answered from the enclosing index
+    const prefix = resolvedRoot === index.root ? '' : path.relative(index.root, resolvedRoot).split(path.sep).join('/') + '/'
+
+    const matches: FindMatch[] = []
+    for (const file of index.files) {
+      if (prefix && !file.startsWith(prefix)) continue
+      const relativePath = file.slice(prefix.length)
+      const match = normalized ? fuzzyMatch(relativePath, normalized) : { score: 0, positions: [] }
+      if (!match) continue
+      matches.push({ path: path.join(index.root, file), relativePath, ...match })
+    }
+
+    // Best score first, then shorter paths, then alphabetical
+    matches.sort((a, b) =>
+      b.score - a.score ||
+      a.relativePath.length - b.relativePath.length ||
+      a.relativePath.localeCompare(b.relativePath))
+
+    if (this.config.debug) {
+      console.log(chalk.gray(`Files find: ${resolvedRoot}, query=${JSON.stringify(query)}, matches=${matches.length}, state=${index.state}`))
+    }
+
+    return { root: resolvedRoot, query, matches: matches.slice(0, count), index: index.status }
+  }
+
+  /**
+   * Drop all indexes
+   */
+  closeAll(): void {
+    for (const index of this.indexes.values()) {
+      index.close()
+    }
+    this.indexes.clear()
+  }
+
+  /**
+   * Find the index covering a directory, or start one
+   */
+  private async getIndex(root: string): Promise<ProjectIndex> {
+    let covering: ProjectIndex | null = null
+    for (const index of this.indexes.values()) {
+      if (root === index.root || root.startsWith(index.root + path.sep)) {
+        if (!covering || index.root.length > covering.root.length) covering = index
+      }
+    }
+    if (covering) return covering
+
+    for (const [startingRoot, starting] of this.starting) {
+      if (root === startingRoot || root.startsWith(startingRoot + path.sep)) return starting
+    }
+
+    const starting = this.startIndex(root)
+    this.starting.set(root, starting)
+    try {
+      return await starting
+    } finally {
+      this.starting.delete(root)
+    }
+  }
+
+  /**
+   * Start indexing a directory
+   */
+  private async startIndex(root: string): Promise<ProjectIndex> {
+    const stats = await fsp.stat(root)
+    if (!stats.isDirectory()) {
+      throw new Error(`Not a directory: ${root}`)
+    }
+
+    if (this.indexes.size >= MAX_INDEXES) {
+      const oldest = Array.from(this.indexes.values()).sort((a, b) => a.lastUsed - b.lastUsed)[0]
+      this.drop(oldest)
+    }
+
+    if (this.config.debug) {
+      console.log(chalk.gray(`Files index start: ${root}`))
+    }
+
+    const index = new ProjectIndex(root, (ready) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`Files index ready: ${ready.root}, files=${ready.files.size}`))
+      }
+      for (const callback of this.statusCallbacks) {
+        callback(ready.status)
+      }
+    })
+    this.indexes.set(root, index)
+    index.build()
+    return index
+  }
+
+  private drop(index: ProjectIndex): void {
+    if (this.config.debug) {
+      console.log(chalk.gray(`Files index dropped: ${index.root}`))
+    }
+    index.close()
+    this.indexes.delete(index.root)
+  }
+
+  private dropIdle(): void {
+    const now = Date.now()
+    for (const index of this.indexes.values()) {
+      if (now - index.lastUsed > INDEX_IDLE_MS) {
+        this.drop(index)
+      }
+    }
+  }
+}
@@ -7,15 +7,22 @@ import * as fs from 'fs/promises'
 import * as path from 'path'
 import * as os from 'os'
 import { Stats } from 'fs'
+import { createHash, randomBytes } from 'crypto'
 import chalk from 'chalk'
 import type { AgentConfig } from './config.js'
+import { applyEdits, applyUnifiedDiff, type PatchFailure, type TextEdit } from './patch.js'
+import { detectTextFormat, decodeText, encodeText, type LineEnding, type TextEncoding, type TextFormat } from './text-encoding.js'
+import { hashFile } from './transfer.js'
 
 // Maximum file size to read (5MB)
 const MAX_FILE_SIZE = 5 * 1024 * 1024
 
-// Binary file extensions
+// Writes go to .<name>.<random>.cftmp next to the target, then replace it
+export const TEMP_SUFFIX = '.cftmp'
+
+// Extensions always treated as binary; anything else is judged by its content
 const BINARY_EXTENSIONS = new Set([
-  '.png', '.jpg', '.jpeg', '.gif', '.webp', '.ico', '.svg',
+  '.png', '.jpg', '.jpeg', '.gif', '.webp', '.ico',
   '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx',
   '.zip', '.tar', '.gz', '.rar', '.7z',
   '.exe', '.dll', '.so', '.dylib',
@@ -39,12 +46,61 @@ export interface ReadFileResult {
   encoding: 'utf8' | 'base64'
   size: number
   isBinary: boolean
+  /** Encoding the text was decoded from (null for binary files) */
+  textEncoding: TextEncoding | null
+  bom: boolean
+  lineEnding: LineEnding | null
+  /** SHA-256 of the bytes on disk, to pass back as expectedHash when saving */
+  hash: string
+  /** Modification time (mtime) */
+  modified: string
+}
+
+export interface FileConflict {
+  expectedHash: string | null
+  /** SHA-256 of the file on disk now, or null if it no longer exists */
+  currentHash: string | null
+  /** What is on disk now, or null if the file no longer exists or is too large to read */
+  current: ReadFileResult | null
+}
+
+export interface WriteFileOptions {
+  /**
+   * Only write if the file on disk still has this SHA-256 (from read);
+   * null means the file must not exist yet
+   */
+  expectedHash?: string | null
+  /** Write to the target of a symlink instead of refusing */
+  followSymlinks?: boolean
+  /** Defaults to the existing file's encoding, or utf8 for a new file */
+  textEncoding?: TextEncoding
+  /** Defaults to whether the existing file has a BOM */
+  bom?: boolean
+  /** Defaults to the existing file's line endings if it uses one style; otherwise the content's are kept */
+  lineEnding?: LineEnding
 }
 
 export interface WriteFileResult {
   path: string
   success: boolean
   bytesWritten: number
+  /** Format the text was saved in (null for base64 writes) */
+  textEncoding: TextEncoding | null
+  bom: boolean
+  lineEnding: LineEnding | null
+  /** SHA-256 and mtime of the saved file (empty when nothing was written) */
+  hash: string
+  modified: string
+  /** Set when expectedHash did not match; nothing was written */
+  conflict?: FileConflict
+  error?: string
+  /** Set when the file was saved, but not atomically */
+  warning?: string
+}
+
+export interface PatchFileResult extends WriteFileResult {
+  /** Edits or hunks that could not be applied; nothing was written */
+  failed?: PatchFailure[]
 }
 
 export interface FileOperationResult {
@@ -53,6 +109,35 @@ export interface FileOperationResult {
   error?: string
 }
 
+/**
+ * Turn filesystem-full and read-only errors into messages people can act on
+ */
+export function describeWriteError(err: unknown, targetPath: string): unknown {
+  switch ((err as NodeJS.ErrnoException).code) {
+    case 'EROFS':
+      return new Error(`Cannot write ${targetPath}: the file system is read-only`)
+    case 'ENOSPC':
+      return new Error(`Cannot write ${targetPath}: no space left on device`)
+    case 'EDQUOT':
+      return new Error(`Cannot write ${targetPath}: disk quota exceeded`)
+    default:
+      return err
+  }
+}
+
+/**
+ * Overwrite a file in place and fsync it. Not atomic: a crash part way leaves it truncated.
+ */
+async function writeInPlace(targetPath: string, data: Buffer): Promise<void> {
+  const handle = await fs.open(targetPath, 'w')
+  try {
+    await handle.writeFile(data)
+    await handle.sync()
+  } finally {
+    await handle.close()
+  }
+}
+
 export class FileManager {
   private config: AgentConfig
   private basePath: string
@@ -65,7 +150,7 @@ export class FileManager {
   /**
    * Validate and resolve a path, preventing directory traversal attacks
    */
-  private resolvePath(requestedPath: string): string {
+  resolvePath(requestedPath: string): string {
     // Expand ~ to home directory
     let expanded = requestedPath
     if (expanded === '~' || expanded.startsWith('~/')) {
@@ -87,7 +172,7 @@ export class FileManager {
   }
 
   /**
-   * Check if a file is binary based on extension
+   * Check if a file is binary based on extension alone
    */
   private isBinaryFile(filePath: string): boolean {
     const ext = path.extname(filePath).toLowerCase()
@@ -175,61 +260,318 @@ export class FileManager {
       throw new Error(`File too large (${stats.size} bytes). Maximum size is ${MAX_FILE_SIZE} bytes.`)
     }
 
-    const isBinary = this.isBinaryFile(resolvedPath)
+    const buffer = await fs.readFile(resolvedPath)
+    const format = this.isBinaryFile(resolvedPath) ? null : detectTextFormat(buffer)
+    const hash = createHash('sha256').update(buffer).digest('hex')
+    const modified = stats.mtime.toISOString()
 
-    if (isBinary) {
+    if (!format) {
       // Read as base64 for binary files
-      const buffer = await fs.readFile(resolvedPath)
       return {
         path: resolvedPath,
         content: buffer.toString('base64'),
         encoding: 'base64',
         size: stats.size,
         isBinary: true,
+        textEncoding: null,
+        bom: false,
+        lineEnding: null,
+        hash,
+        modified,
       }
     } else {
-      // Read as UTF-8 for text files
-      const content = await fs.readFile(resolvedPath, 'utf8')
+      // Decode text files to a string, whatever their encoding
       return {
         path: resolvedPath,
-        content,
+        content: decodeText(buffer, format),
         encoding: 'utf8',
         size: stats.size,
         isBinary: false,
+        textEncoding: format.encoding,
+        bom: format.bom,
+        lineEnding: format.lineEnding,
+        hash,
+        modified,
       }
     }
   }
 
+  /**
+   * Compare the file on disk with the version the client last read.
+   * Returns the conflict, or null if the client is up to date.
+   */
+  private async checkExpectedHash(resolvedPath: string, expectedHash: string | null): Promise<FileConflict | null> {
+    // Streamed, so files too large to read can still be checked
+    let currentHash: string | null = null
+    try {
+      currentHash = await hashFile(resolvedPath)
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+    }
+    if (currentHash === (expectedHash ? expectedHash.toLowerCase() : null)) return null
+
+    let current: ReadFileResult | null = null
+    if (currentHash) {
+      try {
+        current = await this.read(resolvedPath)
+      } catch {
+        // Too large to send, or gone since it was hashed
+      }
+    }
+    return { expectedHash, currentHash, current }
+  }
+
+  /**
+   * Detect the format of an existing text file, or null if it is missing or binary.
+   * Looks at as much of the file as read() does, so both agree on the encoding.
+   */
+  private async existingFormat(resolvedPath: string): Promise<TextFormat | null> {
+    let handle: fs.FileHandle
+    try {
+      handle = await fs.open(resolvedPath, 'r')
+    } catch {
+      return null
+    }
+    try {
+      const stats = await handle.stat()
+      if (!stats.isFile() || this.isBinaryFile(resolvedPath)) return null
+      const buffer = Buffer.alloc(Math.min(stats.size, MAX_FILE_SIZE))
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0)
+      return detectTextFormat(buffer.subarray(0, bytesRead), bytesRead === stats.size)
+    } catch {
+      return null
+    } finally {
+      await handle.close()
+    }
+  }
+
   /**
    * Write file contents
    */
-  async write(filePath: string, content: string, encoding: 'utf8' | 'base64' = 'utf8'): Promise<WriteFileResult> {
+  async write(filePath: string, content: string, encoding: 'utf8' | 'base64' = 'utf8', options: WriteFileOptions = {}): Promise<WriteFileResult> {
     const resolvedPath = this.resolvePath(filePath)
 
     if (this.config.debug) {
       console.log(chalk.gray(`File write: ${resolvedPath}`))
     }
 
-    // Ensure parent directory exists
-    const dir = path.dirname(resolvedPath)
-    await fs.mkdir(dir, { recursive: true })
+    const targetPath = await this.writeTarget(resolvedPath, options.followSymlinks)
 
-    if (encoding === 'base64') {
-      const buffer = Buffer.from(content, 'base64')
-      await fs.writeFile(resolvedPath, buffer)
-      return {
-        path: resolvedPath,
-        success: true,
-        bytesWritten: buffer.length,
+    if (options.expectedHash !== undefined) {
+      const conflict = await this.checkExpectedHash(resolvedPath, options.expectedHash)
+      if (conflict) {
+        return this.notWritten(resolvedPath, conflict)
       }
+    }
+
+    let buffer: Buffer
+    let format: TextFormat | null = null
+    if (encoding === 'base64') {
+      buffer = Buffer.from(content, 'base64')
     } else {
-      await fs.writeFile(resolvedPath, content, 'utf8')
+      // Save text the way the file was stored before, unless told otherwise
+      const existing = await this.existingFormat(resolvedPath)
+      format = {
+        encoding: options.textEncoding || existing?.encoding || 'utf8',
+        bom: options.bom ?? (existing?.bom || false),
+        lineEnding: options.lineEnding || existing?.lineEnding || null,
+      }
+      buffer = encodeText(content, format)
+    }
+
+    const { stats, warning } = await this.commit(targetPath, buffer)
+    return {
+      path: resolvedPath,
+      success: true,
+      bytesWritten: buffer.length,
+      textEncoding: format ? format.encoding : null,
+      bom: format ? format.bom : false,
+      lineEnding: format ? format.lineEnding : null,
+      hash: createHash('sha256').update(buffer).digest('hex'),
+      modified: stats.mtime.toISOString(),
+      ...(warning ? { warning } : {}),
+    }
+  }
+
+  /**
+   * Apply range edits or a unified diff to a text file, only if it still
+   * has baseHash. Nothing is written unless every edit or hunk applies.
+   */
+  async patch(
+    filePath: string,
+    change: { edits?: TextEdit[]; diff?: string },
+    baseHash: string,
+    options: { followSymlinks?: boolean } = {}
+  ): Promise<PatchFileResult> {
+    const resolvedPath = this.resolvePath(filePath)
+
+    if (this.config.debug) {
+      console.log(chalk.gray(`File patch: ${resolvedPath}`))
+    }
+
+    if ((change.edits === undefined) === (change.diff === undefined)) {
+      throw new Error('Pass either edits or diff')
+    }
+    if (!baseHash) {
+      throw new Error('baseHash is required')
+    }
+
+    const targetPath = await this.writeTarget(resolvedPath, options.followSymlinks)
+    const current = await this.read(resolvedPath)
+    if (current.hash !== baseHash.toLowerCase()) {
+      return this.notWritten(resolvedPath, { expectedHash: baseHash, currentHash: current.hash, current })
+    }
+    if (current.isBinary || !current.textEncoding) {
+      throw new Error(`Cannot patch a binary file: ${resolvedPath}`)
+    }
+
+    const outcome = change.diff !== undefined
+      ? applyUnifiedDiff(current.content, change.diff)
+      : applyEdits(current.content, change.edits!)
+    if (outcome.failed.length > 0) {
+      const what = change.diff !== undefined ? 'hunk' : 'edit'
       return {
-        path: resolvedPath,
-        success: true,
-        bytesWritten: Buffer.byteLength(content, 'utf8'),
+        ...this.notWritten(resolvedPath),
+        failed: outcome.failed,
+        error: `${outcome.failed.length} ${what}${outcome.failed.length === 1 ? '' : 's'} could not be applied`,
+      }
+    }
+
+    // Line endings were already matched to the file's while patching
+    const buffer = encodeText(outcome.text, { encoding: current.textEncoding, bom: current.bom, lineEnding: null })
+    const { stats, warning } = await this.commit(targetPath, buffer)
+    return {
+      path: resolvedPath,
+      success: true,
+      bytesWritten: buffer.length,
+      textEncoding: current.textEncoding,
+      bom: current.bom,
+      lineEnding: current.lineEnding,
+      hash: createHash('sha256').update(buffer).digest('hex'),
+      modified: stats.mtime.toISOString(),
+      ...(warning ? { warning } : {}),
+    }
+  }
+
+  /**
+   * Result for a write or patch that was refused, with the conflict if there was one
+   */
+  private notWritten(resolvedPath: string, conflict?: FileConflict): WriteFileResult {
+    return {
+      path: resolvedPath,
+      success: false,
+      bytesWritten: 0,
+      textEncoding: null,
+      bom: false,
+      lineEnding: null,
+      hash: '',
+      modified: '',
+      ...(conflict ? {
+        conflict,
+        // current is also null for a changed file too large to send
+        error: conflict.currentHash === null
+          ? 'File was deleted on disk'
+          : conflict.expectedHash === null ? 'File already exists' : 'File was changed on disk',
+      } : {}),
+    }
+  }
+
+  /**
+   * Where a write should go. Replacing a symlink with a regular file would
+   * silently break it, so symlinks are refused unless they are to be followed.
+   */
+  private async writeTarget(resolvedPath: string, followSymlinks = false): Promise<string> {
+    const linkStats = await fs.lstat(resolvedPath).catch(() => null)
+    if (!linkStats?.isSymbolicLink()) return resolvedPath
+    if (!followSymlinks) {
+      throw new Error(`${resolvedPath} is a symlink; pass followSymlinks to write to its target`)
+    }
+    return fs.realpath(resolvedPath)
+  }
+
+  /**
+   * Create parent directories and replace the file, returning its new stats
+   * and a warning if it could not be replaced atomically
+   */
+  private async commit(targetPath: string, data: Buffer): Promise<{ stats: Stats; warning: string | null }> {
+    let atomic: boolean
+    try {
+      await fs.mkdir(path.dirname(targetPath), { recursive: true })
+      atomic = await this.writeAtomic(targetPath, data)
+    } catch (err) {
+      throw describeWriteError(err, targetPath)
+    }
+    return {
+      stats: await fs.stat(targetPath),
+      warning: atomic ? null : 'Saved in place: the directory is not writable, so the save was not atomic',
+    }
+  }
+
+  /**
+   * Replace a file atomically: write a temp file next to it, fsync it and
+   * rename it over the original, keeping the original's mode, owner and group.
+   * Returns false if it had to be overwritten in place instead.
+   */
+  private async writeAtomic(targetPath: string, data: Buffer): Promise<boolean> {
+    let existing: Stats | null = null
+    try {
+      existing = await fs.stat(targetPath)
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+    }
+    if (existing && !existing.isFile()) {
+      throw new Error(`Not a file: ${targetPath}`)
+    }
+
+    const dir = path.dirname(targetPath)
+    const tempPath = path.join(dir, `.${path.basename(targetPath)}.${randomBytes(6).toString('hex')}${TEMP_SUFFIX}`)
+    let handle: fs.FileHandle
+    try {
+      handle = await fs.open(tempPath, 'wx', existing ? existing.mode & 0o7777 : 0o666)
+    } catch (err) {
+      // A writable file in a directory we can't create files in can still be written in place
+      const code = (err as NodeJS.ErrnoException).code
+      if (existing && (code === 'EACCES' || code === 'EPERM')) {
+        await writeInPlace(targetPath, data)
+        return false
+      }
+      throw err
+    }
+
+    try {
+      try {
+        await handle.writeFile(data)
+        if (existing) {
+          try {
+            await handle.chown(existing.uid, existing.gid)
+          } catch {
+            // Only root can give files away; the file stays ours
+          }
+          // After chown, which clears setuid and setgid; the mode passed to open is also reduced by the umask
+          await handle.chmod(existing.mode & 0o7777)
+        }
+        await handle.sync()
+      } finally {
+        await handle.close()
       }
+      await fs.rename(tempPath, targetPath)
+    } catch (err) {
+      await fs.rm(tempPath, { force: true })
+      throw err
+    }
+
+    // Make the rename itself durable
+    try {
+      const dirHandle = await fs.open(dir, 'r')
+      try {
+        await dirHandle.sync()
+      } finally {
+        await dirHandle.close()
+      }
+    } catch {
+      // Not supported everywhere
     }
+    return true
   }
 
   /**
@@ -0,0 +1,141 @@
+/**
+ * CloudForge Agent Output Flow Control
+ * Coalesces PTY output into batches and pauses the PTY while too much
+ * forwarded output is still unacknowledged by the client
+ */
+
+import type { IPty } from 'node-pty'
+
+// Output arriving within this window is sent as one terminal:output message
+const OUTPUT_BATCH_MS = 5
+
+// Flush early once a batch grows this large
+const MAX_BATCH_BYTES = 64 * 1024
+
+// Pause the PTY above the high watermark, resume below the low watermark
+const FLOW_HIGH_WATERMARK = 512 * 1024
+const FLOW_LOW_WATERMARK = 128 * 1024
+
+export interface FlowStats {
+  bytesIn: number
+  bytesOut: number
+  messagesOut: number
+  unackedBytes: number
+  paused: boolean
+  flowControl: boolean
+}
+
+export class OutputFlow {
+  private pty: IPty
+  private emit: (data: string, offset: number) => void
+  private pending: string[] = []
+  private pendingBytes = 0
+  private pendingOffset = 0
+  private flushTimer: ReturnType<typeof setTimeout> | null = null
+  private unackedBytes = 0
+  private paused = false
+  private bytesIn = 0
+  private bytesOut = 0
+  private messagesOut = 0
+
+  /** Only clients that send terminal:ack opt in to flow control */
+  flowControl = false
+
+  constructor(pty: IPty, emit: (data: string, offset: number) => void) {
+    this.pty = pty
+    this.emit = emit
+  }
+
+  /**
+   * Queue output for the next batch. endOffset is the stream offset just past this data.
+   */
+  push(data: string, endOffset: number): void {
+    const bytes = Buffer.byteLength(data, 'utf8')
+    if (this.pending.length === 0) {
+      this.pendingOffset = endOffset - bytes
+    }
+    this.pending.push(data)
+    this.pendingBytes += bytes
+
+    if (this.pendingBytes >= MAX_BATCH_BYTES) {
+      this.flush()
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), OUTPUT_BATCH_MS)
+    }
+  }
+
+  /**
+   * Send everything queued so far
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+    if (this.pending.length === 0) return
+
+    const data = this.pending.join('')
+    const bytes = this.pendingBytes
+    this.pending = []
+    this.pendingBytes = 0
+
+    this.bytesOut += bytes
+    this.messagesOut++
+    this.emit(data, this.pendingOffset)
+
+    if (this.flowControl) {
+      this.unackedBytes += bytes
+      if (!this.paused && this.unackedBytes > FLOW_HIGH_WATERMARK) {
+        this.paused = true
+        this.pty.pause()
+      }
+    }
+  }
+
+  /**
+   * Client has processed this many bytes of output
+   */
+  ack(bytes: number): void {
+    this.unackedBytes = Math.max(0, this.unackedBytes - bytes)
+    if (this.paused && this.unackedBytes < FLOW_LOW_WATERMARK) {
+      this.paused = false
+      this.pty.resume()
+    }
+  }
+
+  /**
+   * Count input written to the PTY
+   */
+  countInput(data: string): void {
+    this.bytesIn += Buffer.byteLength(data, 'utf8')
+  }
+
+  /**
+   * Drop queued output and outstanding acks, resuming the PTY
+   * (no viewers left, or the connection to the client was lost)
+   */
+  reset(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+    this.pending = []
+    this.pendingBytes = 0
+    this.unackedBytes = 0
+    if (this.paused) {
+      this.paused = false
+      this.pty.resume()
+    }
+  }
+
+  get stats(): FlowStats {
+    return {
+      bytesIn: this.bytesIn,
+      bytesOut: this.bytesOut,
+      messagesOut: this.messagesOut,
+      unackedBytes: this.unackedBytes,
+      paused: this.paused,
+      flowControl: this.flowControl,
+    }
+  }
+}
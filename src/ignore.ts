@@ -0,0 +1,239 @@
+/**
+ * CloudForge Agent Ignore Rules
+ * Glob matching and .gitignore handling for walking project trees
+ */
+
+import type { Dirent } from 'fs'
+import * as fsp from 'fs/promises'
+import * as path from 'path'
+
+// Never descended into when .gitignore files are honoured, whatever they say
+export const ALWAYS_SKIPPED = new Set(['.git'])
+
+export interface GlobPattern {
+  regex: RegExp
+  /** Pattern contains a slash, so it is matched against the whole relative path */
+  anchored: boolean
+  /** Pattern ended with a slash and only matches directories */
+  dirOnly: boolean
+}
+
+interface IgnoreRule extends GlobPattern {
+  negate: boolean
+  /** Directory the .gitignore lives in; paths are matched relative to it */
+  base: string
+}
+
+export interface WalkOptions {
+  /** Honour .gitignore files (default true) */
+  gitignore?: boolean
+  /** Include dotfiles and dot-directories */
+  hidden?: boolean
+  /** Extra globs for files and directories to skip */
+  exclude?: string[]
+  /** Yield symlinks too (they are never followed) */
+  symlinks?: boolean
+  /** Checked before each directory; returning true ends the walk early */
+  shouldStop?: () => boolean
+  /** Rules in effect above root, when walking part of a larger tree */
+  rules?: IgnoreRules
+  /** Called for each directory visited, with the rules that apply inside it */
+  onDirectory?: (dir: string, rules: IgnoreRules) => void
+}
+
+/**
+ * Translate a glob to a regular expression source. Supports *, **, ?,
+ * [...] classes and {a,b} alternatives.
+ */
+function globSource(glob: string): string {
+  let source = ''
+  let braces = 0
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const slashBefore = i === 0 || glob[i - 1] === '/'
+        const slashAfter = glob[i + 2] === '/'
+        if (slashBefore && slashAfter) {
+          // "**/" matches zero or more directories
+          source += '(?:.*/)?'
+          i += 2
+        } else {
+          source += '.*'
+          i += 1
+        }
+      } else {
+        source += '[^/]*'
+      }
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2)
+      if (end === -1) {
+        source += '\\['
+      } else {
+        let body = glob.slice(i + 1, end).replace(/\\/g, '\\\\')
+        if (body.startsWith('!')) body = '^' + body.slice(1)
+        source += `[${body}]`
+        i = end
+      }
+    } else if (char === '{') {
+      braces++
+      source += '(?:'
+    } else if (char === '}' && braces > 0) {
+      braces--
+      source += ')'
+    } else if (char === ',' && braces > 0) {
+      source += '|'
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+    }
+  }
+  return source + ')'.repeat(braces)
+}
+
+/**
+ * Compile a glob. Like .gitignore patterns, a glob without a slash matches
+ * a name at any depth; with one, it matches from the root.
+ */
+export function compileGlob(glob: string): GlobPattern {
+  let pattern = glob
+  const dirOnly = pattern.endsWith('/')
+  if (dirOnly) pattern = pattern.slice(0, -1)
+  const anchored = pattern.includes('/')
+  if (pattern.startsWith('/')) pattern = pattern.slice(1)
+  return { regex: new RegExp(`^${globSource(pattern)}$`), anchored, dirOnly }
+}
+
+/**
+ * Test a path (relative, with forward slashes) against a compiled glob
+ */
+export function matchGlob(pattern: GlobPattern, relativePath: string, isDir: boolean): boolean {
+  if (pattern.dirOnly && !isDir) return false
+  const subject = pattern.anchored ? relativePath : relativePath.slice(relativePath.lastIndexOf('/') + 1)
+  return pattern.regex.test(subject)
+}
+
+function toRelative(base: string, fullPath: string): string {
+  return path.relative(base, fullPath).split(path.sep).join('/')
+}
+
+/**
+ * The .gitignore rules in effect for one directory: its own file plus
+ * those of every directory above it, down from where the walk started
+ */
+export class IgnoreRules {
+  private rules: IgnoreRule[]
+
+  private constructor(rules: IgnoreRule[]) {
+    this.rules = rules
+  }
+
+  static readonly empty = new IgnoreRules([])
+
+  /**
+   * Parse the lines of a .gitignore file
+   */
+  private static parse(content: string, base: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = []
+    for (const rawLine of content.split(/\r?\n/)) {
+      // Trailing spaces are ignored unless escaped
+      let line = rawLine.replace(/(?<!\\)\s+$/, '')
+      if (!line || line.startsWith('#')) continue
+
+      const negate = line.startsWith('!')
+      if (negate) line = line.slice(1)
+      if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.slice(1)
+      if (!line || line === '/') continue
+
+      try {
+        rules.push({ ...compileGlob(line), negate, base })
+      } catch {
+        // Not a usable pattern
+      }
+    }
+    return rules
+  }
+
+  /**
+   * Rules for a subdirectory, adding its .gitignore if it has one
+   */
+  async enter(dir: string): Promise<IgnoreRules> {
+    let content: string
+    try {
+      content = await fsp.readFile(path.join(dir, '.gitignore'), 'utf8')
+    } catch {
+      return this
+    }
+    const added = IgnoreRules.parse(content, dir)
+    return added.length > 0 ? new IgnoreRules([...this.rules, ...added]) : this
+  }
+
+  /**
+   * Whether a path is ignored. The last matching rule wins, so a "!" rule
+   * can re-include something an earlier rule ignored.
+   */
+  ignores(fullPath: string, isDir: boolean): boolean {
+    for (let i = this.rules.length - 1; i >= 0; i--) {
+      const rule = this.rules[i]
+      if (matchGlob(rule, toRelative(rule.base, fullPath), isDir)) {
+        return !rule.negate
+      }
+    }
+    return false
+  }
+}
+
+/**
+ * Walk a directory tree, yielding files that are not ignored. Symlinks are
+ * not followed, and only yielded when asked for.
+ */
+export async function* walkFiles(root: string, options: WalkOptions = {}): AsyncGenerator<string> {
+  const exclude = (options.exclude || []).map(compileGlob)
+  const useGitignore = options.gitignore !== false
+  const above = options.rules || IgnoreRules.empty
+  const stack: { dir: string; rules: IgnoreRules }[] = [
+    { dir: root, rules: useGitignore ? await above.enter(root) : above },
+  ]
+
+  while (stack.length > 0) {
+    if (options.shouldStop?.()) return
+    const { dir, rules } = stack.pop()!
+    options.onDirectory?.(dir, rules)
+
+    let entries: Dirent[]
+    try {
+      entries = await fsp.readdir(dir, { withFileTypes: true })
+    } catch {
+      // Unreadable or removed meanwhile
+      continue
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name))
+
+    const subdirs: string[] = []
+    for (const entry of entries) {
+      if (useGitignore && ALWAYS_SKIPPED.has(entry.name)) continue
+      if (!options.hidden && entry.name.startsWith('.')) continue
+      const isDir = entry.isDirectory()
+      if (!isDir && !entry.isFile() && !(options.symlinks && entry.isSymbolicLink())) continue
+
+      const fullPath = path.join(dir, entry.name)
+      if (rules.ignores(fullPath, isDir)) continue
+      const relativePath = toRelative(root, fullPath)
+      if (exclude.some(pattern => matchGlob(pattern, relativePath, isDir))) continue
+
+      if (isDir) {
+        subdirs.push(fullPath)
+      } else {
+        yield fullPath
+      }
+    }
+
+    // Pushed in reverse so directories are visited in name order
+    for (const subdir of subdirs.reverse()) {
+      stack.push({ dir: subdir, rules: useGitignore ? await rules.enter(subdir) : rules })
+    }
+  }
+}
@@ -14,6 +14,14 @@ import { WebSocketManager } from './websocket.js'
 import { TerminalManager } from './terminal.js'
 import { FileManager } from './files.js'
 import { GitManager } from './git.js'
+import { RecordingManager } from './recording.js'
+import { ExecManager } from './exec.js'
+import { TransferManager } from './transfer.js'
+import { WatchManager } from './watch.js'
+import { SearchManager } from './search.js'
+import { FileIndexManager } from './file-index.js'
+import { ArchiveManager } from './archive.js'
+import { CopyManager } from './copy.js'
 
 /**
  * Fix node-pty spawn-helper permissions.
@@ -46,6 +54,14 @@ program
   .version(VERSION)
   .option('-t, --token <token>', 'Agent token from CloudForge dashboard')
   .option('-s, --server <url>', 'CloudForge server URL (default: https://cloud-forge.me)')
+  .option('-b, --session-backend <backend>', 'Terminal session backend: auto, pty or tmux (default: auto)')
+  .option('--max-sessions <n>', 'Maximum concurrent terminal sessions, 0 for no limit (default: 32)')
+  .option('--max-scrollback <mb>', 'Total scrollback memory for all sessions in MB, 0 for no limit (default: 64)')
+  .option('--session-cpu <percent>', 'CPU limit per session in percent of one core (cgroup v2 only)')
+  .option('--session-memory <mb>', 'Memory limit per session in MB')
+  .option('--session-processes <n>', 'Process count limit per session')
+  .option('--no-redact', 'Disable masking of secrets in terminal output')
+  .option('--redact-pattern <regex>', 'Additional regex to mask in terminal output (repeatable)', (value: string, previous: string[]) => [...previous, value], [] as string[])
   .option('-d, --debug', 'Enable debug logging')
   .action(async (options) => {
     console.log(chalk.cyan(`
@@ -66,6 +82,14 @@ program
       const config = createConfig({
         token: options.token,
         serverUrl: options.server,
+        sessionBackend: options.sessionBackend,
+        maxSessions: options.maxSessions,
+        maxScrollback: options.maxScrollback,
+        sessionCpu: options.sessionCpu,
+        sessionMemory: options.sessionMemory,
+        sessionProcesses: options.sessionProcesses,
+        redact: options.redact,
+        redactPatterns: options.redactPattern,
         debug: options.debug,
       })
 
@@ -84,20 +108,56 @@ program
       // Create terminal manager
       const terminalManager = new TerminalManager(config)
 
+      // Pick up sessions left running by a previous agent process
+      const restored = await terminalManager.restore()
+      if (restored.length > 0) {
+        console.log(chalk.gray(`Restored ${restored.length} terminal session(s)`))
+      }
+
       // Create file manager
       const fileManager = new FileManager(config)
 
       // Create git manager
       const gitManager = new GitManager(config)
 
+      // Create recording manager
+      const recordingManager = new RecordingManager(config)
+
+      // Create exec manager
+      const execManager = new ExecManager(config)
+
+      // Create transfer manager
+      const transferManager = new TransferManager(config, fileManager)
+
+      // Create watch manager
+      const watchManager = new WatchManager(config, fileManager)
+
+      // Create search manager
+      const searchManager = new SearchManager(config, fileManager)
+
+      // Create file index manager
+      const fileIndexManager = new FileIndexManager(config, fileManager)
+
+      // Create archive manager
+      const archiveManager = new ArchiveManager(config, fileManager)
+
+      // Create copy manager
+      const copyManager = new CopyManager(config, fileManager)
+
       // Create and connect WebSocket manager
-      const wsManager = new WebSocketManager(config, terminalManager, fileManager, gitManager)
+      const wsManager = new WebSocketManager(config, terminalManager, fileManager, gitManager, recordingManager, execManager, transferManager, watchManager, searchManager, fileIndexManager, archiveManager, copyManager)
 
       // Handle graceful shutdown
       const shutdown = async () => {
         console.log()
         console.log(chalk.yellow('Shutting down agent...'))
-        terminalManager.killAll()
+        terminalManager.shutdown()
+        execManager.killAll()
+        watchManager.unwatchAll()
+        searchManager.cancelAll()
+        fileIndexManager.closeAll()
+        archiveManager.cancelAll()
+        copyManager.cancelAll()
         wsManager.disconnect()
         console.log(chalk.green('Agent stopped.'))
         process.exit(0)
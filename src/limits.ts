@@ -0,0 +1,162 @@
+/**
+ * CloudForge Agent Resource Limits
+ * Puts each terminal session in its own cgroup v2 with CPU, memory and
+ * process-count limits, falling back to rlimits where cgroups aren't available
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import type { SessionLimits } from './config.js'
+
+const CGROUP_ROOT = '/sys/fs/cgroup'
+const CGROUP_CONTROLLERS = ['cpu', 'memory', 'pids']
+
+// Leaf cgroup the agent moves itself into so its own cgroup can hold session cgroups
+const AGENT_LEAF = 'cloudforge-agent'
+
+// cpu.max period in microseconds
+const CPU_PERIOD_US = 100_000
+
+// Exit status of the wrapper when it could not apply a session's limits
+const LIMITS_FAILED_EXIT = 125
+
+export type LimitMode = 'cgroup' | 'rlimit' | 'none'
+
+/**
+ * Why a session ended
+ */
+export type CloseReason = 'exit' | 'killed' | 'idle-timeout' | 'memory-limit' | 'limits-failed'
+
+export class ResourceLimiter {
+  private limits: SessionLimits
+  private cgroupBase: string | null = null
+  readonly mode: LimitMode
+
+  constructor(limits: SessionLimits) {
+    this.limits = limits
+
+    if (!limits.cpuPercent && !limits.memoryBytes && !limits.maxProcesses) {
+      this.mode = 'none'
+      return
+    }
+
+    this.cgroupBase = setupCgroupBase()
+    this.mode = this.cgroupBase ? 'cgroup' : 'rlimit'
+  }
+
+  /**
+   * Prepare limits for a new session. Returns an argv prefix that applies
+   * them before exec'ing the shell (the shell and its args follow as $0 "$@").
+   * If any limit can't be applied the shell is not started at all.
+   */
+  prepare(sessionId: string): string[] {
+    if (this.mode === 'none') return []
+
+    const steps: string[] = []
+    if (this.mode === 'cgroup') {
+      const dir = this.cgroupDir(sessionId)
+      fs.mkdirSync(dir, { recursive: true })
+      const { cpuPercent, memoryBytes, maxProcesses } = this.limits
+      writeControl(dir, 'cpu.max', cpuPercent ? `${Math.round(cpuPercent / 100 * CPU_PERIOD_US)} ${CPU_PERIOD_US}` : 'max')
+      writeControl(dir, 'memory.max', memoryBytes ? String(memoryBytes) : 'max')
+      // On OOM, kill the whole session rather than one random process in it
+      writeControl(dir, 'memory.oom.group', '1')
+      writeControl(dir, 'pids.max', maxProcesses ? String(maxProcesses) : 'max')
+      // Join the cgroup before exec, so nothing the shell starts escapes it
+      steps.push(`echo $$ > '${dir}/cgroup.procs'`)
+    } else {
+      // RLIMIT_NPROC counts all of the user's processes, not just this session's.
+      // It is -u in bash and busybox, -p in dash.
+      if (this.limits.memoryBytes) steps.push(`ulimit -v ${Math.floor(this.limits.memoryBytes / 1024)}`)
+      if (this.limits.maxProcesses) steps.push(`{ ulimit -u ${this.limits.maxProcesses} || ulimit -p ${this.limits.maxProcesses}; }`)
+    }
+
+    if (steps.length === 0) return []
+    const fail = `{ echo 'cloudforge: could not apply session resource limits' >&2; exit ${LIMITS_FAILED_EXIT}; }`
+    return ['/bin/sh', '-c', `{ ${steps.join(' && ')}; } 2>/dev/null || ${fail}; exec "$0" "$@"`]
+  }
+
+  /**
+   * Whether a session that just ended was killed by one of its limits, or
+   * never started because they could not be applied
+   */
+  exitReason(sessionId: string, exitCode: number): CloseReason | null {
+    if (this.mode === 'none') return null
+    if (exitCode === LIMITS_FAILED_EXIT) return 'limits-failed'
+    if (this.mode !== 'cgroup') return null
+    try {
+      const events = fs.readFileSync(path.join(this.cgroupDir(sessionId), 'memory.events'), 'utf8')
+      const match = /^oom_group_kill (\d+)$/m.exec(events) || /^oom_kill (\d+)$/m.exec(events)
+      if (match && parseInt(match[1], 10) > 0) return 'memory-limit'
+    } catch {
+      // Cgroup already gone
+    }
+    return null
+  }
+
+  /**
+   * Remove a session's cgroup (only succeeds once no processes are left in it)
+   */
+  release(sessionId: string): void {
+    if (this.mode !== 'cgroup') return
+    try {
+      fs.rmdirSync(this.cgroupDir(sessionId))
+    } catch {
+      // Still busy or already removed
+    }
+  }
+
+  private cgroupDir(sessionId: string): string {
+    return path.join(this.cgroupBase!, `cf-${sessionId.replace(/[^a-zA-Z0-9_-]/g, '_')}`)
+  }
+}
+
+function writeControl(dir: string, file: string, value: string): void {
+  fs.writeFileSync(path.join(dir, file), value)
+}
+
+/**
+ * Find the agent's own cgroup and enable the controllers we need for
+ * child cgroups. Returns null when cgroup v2 isn't usable.
+ */
+function setupCgroupBase(): string | null {
+  if (process.platform !== 'linux') return null
+
+  try {
+    if (!fs.existsSync(path.join(CGROUP_ROOT, 'cgroup.controllers'))) return null
+
+    // Unified hierarchy entry: "0::/path"
+    const match = /^0::(.*)$/m.exec(fs.readFileSync('/proc/self/cgroup', 'utf8'))
+    if (!match) return null
+    let base = path.join(CGROUP_ROOT, match[1])
+    // Already moved to our leaf by an earlier run (e.g. across an exec or restart)
+    if (path.basename(base) === AGENT_LEAF) {
+      base = path.dirname(base)
+    }
+
+    const available = fs.readFileSync(path.join(base, 'cgroup.controllers'), 'utf8').trim().split(/\s+/)
+    if (!CGROUP_CONTROLLERS.every(c => available.includes(c))) return null
+
+    const enable = CGROUP_CONTROLLERS.map(c => `+${c}`).join(' ')
+    try {
+      writeControl(base, 'cgroup.subtree_control', enable)
+    } catch {
+      // A cgroup with processes can't delegate controllers ("no internal
+      // processes"), so move everything in it to a leaf first
+      const leaf = path.join(base, AGENT_LEAF)
+      fs.mkdirSync(leaf, { recursive: true })
+      const pids = fs.readFileSync(path.join(base, 'cgroup.procs'), 'utf8').split('\n').filter(Boolean)
+      for (const pid of pids) {
+        try {
+          writeControl(leaf, 'cgroup.procs', pid)
+        } catch {
+          // Exited meanwhile
+        }
+      }
+      writeControl(base, 'cgroup.subtree_control', enable)
+    }
+    return base
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * CloudForge Agent Terminal Notifications
+ * Detects the terminal bell and OSC 9 / OSC 777 desktop notifications in
+ * terminal output, so the dashboard can alert people about detached sessions
+ */
+
+import { OscScanner } from './osc.js'
+
+// Programs often ring the bell several times in a row; report at most one per interval
+const BELL_INTERVAL_MS = 1000
+
+export type TerminalNotification =
+  | { kind: 'bell' }
+  | { kind: 'message'; title: string | null; body: string }
+  | { kind: 'command-finished'; command: string; exitCode: number | null; durationMs: number }
+
+export class NotificationDetector {
+  private emit: (notification: TerminalNotification) => void
+  private scanner: OscScanner
+  private lastBell = 0
+
+  constructor(emit: (notification: TerminalNotification) => void) {
+    this.emit = emit
+    this.scanner = new OscScanner((body) => this.handle(body), () => this.bell())
+  }
+
+  feed(chunk: string): void {
+    this.scanner.feed(chunk)
+  }
+
+  private bell(): void {
+    const now = Date.now()
+    if (now - this.lastBell < BELL_INTERVAL_MS) return
+    this.lastBell = now
+    this.emit({ kind: 'bell' })
+  }
+
+  private handle(body: string): void {
+    // iTerm2 style: OSC 9 ; message
+    if (body.startsWith('9;')) {
+      const message = body.slice(2)
+      // ConEmu uses OSC 9 ; <number> ; ... for progress and other non-notifications
+      if (!message || /^\d+(;|$)/.test(message)) return
+      this.emit({ kind: 'message', title: null, body: message })
+      return
+    }
+
+    // rxvt/VTE style: OSC 777 ; notify ; title ; body
+    if (body.startsWith('777;notify;')) {
+      const [title, ...rest] = body.slice('777;notify;'.length).split(';')
+      this.emit({ kind: 'message', title: title || null, body: rest.join(';') })
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * CloudForge Agent OSC Scanner
+ * Finds OSC sequences and bare bell characters in terminal output,
+ * including sequences split across chunks
+ */
+
+// Longest OSC payload we buffer before giving up on it (long command lines)
+const MAX_OSC_LENGTH = 16 * 1024
+
+export class OscScanner {
+  private onOsc: (body: string) => void
+  private onBell: (() => void) | null
+  private inOsc = false
+  private osc = ''
+  private carry = ''
+
+  constructor(onOsc: (body: string) => void, onBell?: () => void) {
+    this.onOsc = onOsc
+    this.onBell = onBell || null
+  }
+
+  feed(chunk: string): void {
+    const data = this.carry + chunk
+    this.carry = ''
+    let i = 0
+
+    while (i < data.length) {
+      if (!this.inOsc) {
+        const start = data.indexOf('\x1b]', i)
+        // A BEL outside an OSC is the terminal bell
+        if (this.onBell && data.slice(i, start === -1 ? undefined : start).includes('\x07')) {
+          this.onBell()
+        }
+        if (start === -1) {
+          // An ESC at the very end may begin an OSC in the next chunk
+          if (data.endsWith('\x1b')) this.carry = '\x1b'
+          return
+        }
+        this.inOsc = true
+        this.osc = ''
+        i = start + 2
+        continue
+      }
+
+      // OSC ends with BEL or ST (ESC \)
+      const bel = data.indexOf('\x07', i)
+      const st = data.indexOf('\x1b\\', i)
+      const end = bel === -1 ? st : st === -1 ? bel : Math.min(bel, st)
+
+      if (end === -1) {
+        let rest = data.slice(i)
+        if (rest.endsWith('\x1b')) {
+          this.carry = '\x1b'
+          rest = rest.slice(0, -1)
+        }
+        this.osc += rest
+        if (this.osc.length > MAX_OSC_LENGTH) {
+          this.inOsc = false
+          this.osc = ''
+        }
+        return
+      }
+
+      this.osc += data.slice(i, end)
+      this.inOsc = false
+      this.onOsc(this.osc)
+      this.osc = ''
+      i = end + (data[end] === '\x07' ? 1 : 2)
+    }
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * CloudForge Agent Patching
+ * Applies range edits or a unified diff to file content, reporting what
+ * could not be applied instead of applying part of it
+ */
+
+// A hunk whose context is not at the stated line is looked for this many lines away
+const MAX_HUNK_OFFSET = 1000
+
+export interface Position {
+  /** 0-based line */
+  line: number
+  /** 0-based column, in UTF-16 code units */
+  character: number
+}
+
+export interface TextEdit {
+  range: { start: Position; end: Position }
+  text: string
+}
+
+export interface PatchFailure {
+  /** Index of the edit or hunk that failed */
+  index: number
+  /** Hunk header, for diffs */
+  header?: string
+  reason: string
+}
+
+export interface PatchOutcome {
+  text: string
+  failed: PatchFailure[]
+}
+
+interface HunkLine {
+  op: ' ' | '-' | '+'
+  text: string
+}
+
+interface Hunk {
+  header: string
+  oldStart: number
+  lines: HunkLine[]
+  /** Lines the hunk expects to find in the file (context and removed) */
+  oldLines: string[]
+  /** The last old / new line has no newline after it */
+  oldNoNewline: boolean
+  newNoNewline: boolean
+}
+
+/**
+ * The file's dominant line ending, used for inserted lines
+ */
+function lineEndingOf(text: string): string {
+  const crlf = (text.match(/\r\n/g) || []).length
+  const lf = (text.match(/\n/g) || []).length - crlf
+  return crlf > lf ? '\r\n' : '\n'
+}
+
+/**
+ * Apply edits whose ranges refer to the original text. Ranges must not overlap.
+ */
+export function applyEdits(text: string, edits: TextEdit[]): PatchOutcome {
+  const eol = lineEndingOf(text)
+  const lines = text.split('\n')
+  const lineStarts: number[] = []
+  let offset = 0
+  for (const line of lines) {
+    lineStarts.push(offset)
+    offset += line.length + 1
+  }
+
+  const failed: PatchFailure[] = []
+  const toOffset = (position: Position): number | null => {
+    const line = lines[position.line]
+    if (line === undefined || !Number.isInteger(position.character) || position.character < 0) return null
+    // The end of a line is just before its line break, including the \r of CRLF
+    const length = line.endsWith('\r') ? line.length - 1 : line.length
+    if (position.character > length) return null
+    return lineStarts[position.line] + position.character
+  }
+
+  const resolved: { index: number; start: number; end: number; text: string }[] = []
+  edits.forEach((edit, index) => {
+    const start = edit.range ? toOffset(edit.range.start) : null
+    const end = edit.range ? toOffset(edit.range.end) : null
+    if (start === null || end === null) {
+      failed.push({ index, reason: 'Range is outside the file' })
+    } else if (end < start) {
+      failed.push({ index, reason: 'Range ends before it starts' })
+    } else {
+      resolved.push({ index, start, end, text: (edit.text || '').replace(/\r?\n/g, eol) })
+    }
+  })
+
+  resolved.sort((a, b) => a.start - b.start || a.end - b.end)
+  for (let i = 1; i < resolved.length; i++) {
+    if (resolved[i].start < resolved[i - 1].end) {
+      failed.push({ index: resolved[i].index, reason: `Overlaps edit ${resolved[i - 1].index}` })
+    }
+  }
+  if (failed.length > 0) return { text, failed }
+
+  // Back to front, so earlier offsets stay valid
+  let result = text
+  for (let i = resolved.length - 1; i >= 0; i--) {
+    const edit = resolved[i]
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end)
+  }
+  return { text: result, failed }
+}
+
+/**
+ * Parse the hunks of a single-file unified diff
+ */
+function parseHunks(diff: string): Hunk[] {
+  const hunks: Hunk[] = []
+  let current: Hunk | null = null
+  // Lines left in the current hunk, from the counts in its header
+  let oldLeft = 0
+  let newLeft = 0
+  let files = 0
+
+  for (const raw of diff.split('\n')) {
+    const line = raw.endsWith('\r') ? raw.slice(0, -1) : raw
+
+    if (current && (oldLeft > 0 || newLeft > 0)) {
+      // Some tools drop the space from empty context lines
+      const op = line === '' ? ' ' : line[0]
+      const text = line.slice(1)
+      if (op === ' ' && oldLeft > 0 && newLeft > 0) {
+        current.lines.push({ op, text })
+        current.oldLines.push(text)
+        oldLeft--
+        newLeft--
+        continue
+      } else if (op === '-' && oldLeft > 0) {
+        current.lines.push({ op, text })
+        current.oldLines.push(text)
+        oldLeft--
+        continue
+      } else if (op === '+' && newLeft > 0) {
+        current.lines.push({ op, text })
+        newLeft--
+        continue
+      } else if (op !== '\\') {
+        throw new Error(`Malformed hunk: ${current.header}`)
+      }
+    }
+
+    if (line.startsWith('\\')) {
+      // "\ No newline at end of file" applies to the line before it
+      const previous = current?.lines[current.lines.length - 1]
+      if (current && previous) {
+        if (previous.op !== '+') current.oldNoNewline = true
+        if (previous.op !== '-') current.newNoNewline = true
+      }
+      continue
+    }
+
+    if (line.startsWith('--- ')) {
+      if (++files > 1) throw new Error('Diff covers more than one file')
+      continue
+    }
+
+    const header = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line)
+    if (header) {
+      current = {
+        header: line,
+        oldStart: parseInt(header[1], 10),
+        lines: [],
+        oldLines: [],
+        oldNoNewline: false,
+        newNoNewline: false,
+      }
+      hunks.push(current)
+      oldLeft = header[2] === undefined ? 1 : parseInt(header[2], 10)
+      newLeft = header[4] === undefined ? 1 : parseInt(header[4], 10)
+    }
+    // Anything else (diff --git, index, +++ lines) is ignored
+  }
+
+  if (current && (oldLeft > 0 || newLeft > 0)) {
+    throw new Error(`Diff ends in the middle of a hunk: ${current.header}`)
+  }
+  if (hunks.length === 0) throw new Error('Diff has no hunks')
+  return hunks
+}
+
+function linesMatch(lines: string[], at: number, expected: string[]): boolean {
+  if (at < 0 || at + expected.length > lines.length) return false
+  for (let i = 0; i < expected.length; i++) {
+    const line = lines[at + i]
+    if ((line.endsWith('\r') ? line.slice(0, -1) : line) !== expected[i]) return false
+  }
+  return true
+}
+
+/**
+ * Apply a unified diff. Each hunk is looked for at its stated line first,
+ * then progressively further away, like patch(1) without fuzz.
+ */
+export function applyUnifiedDiff(text: string, diff: string): PatchOutcome {
+  const hunks = parseHunks(diff)
+  const crlf = lineEndingOf(text) === '\r\n'
+
+  const lines = text.split('\n')
+  let finalNewline = false
+  if (lines[lines.length - 1] === '') {
+    lines.pop()
+    finalNewline = text.length > 0
+  }
+  // In a CRLF file without a final newline, the last line may get lines after it
+  const lastLine = lines.length - 1
+  const unterminated = crlf && !finalNewline
+
+  const failed: PatchFailure[] = []
+  const result: string[] = []
+  let cursor = 0
+  let drift = 0
+
+  hunks.forEach((hunk, index) => {
+    // "-N,0" inserts after line N; otherwise the hunk starts at line N
+    const expected = (hunk.oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1) + drift
+    let at = -1
+    for (let distance = 0; distance <= MAX_HUNK_OFFSET; distance++) {
+      if (expected - distance < cursor && expected + distance > lines.length) break
+      if (expected + distance >= cursor && linesMatch(lines, expected + distance, hunk.oldLines)) {
+        at = expected + distance
+        break
+      }
+      if (distance > 0 && expected - distance >= cursor && linesMatch(lines, expected - distance, hunk.oldLines)) {
+        at = expected - distance
+        break
+      }
+    }
+    if (at === -1) {
+      failed.push({ index, header: hunk.header, reason: 'Context does not match the file' })
+      return
+    }
+
+    result.push(...lines.slice(cursor, at))
+    // Keep context lines exactly as they are in the file; added lines get the file's line ending
+    let oldIndex = 0
+    for (const line of hunk.lines) {
+      if (line.op === ' ') {
+        const fileLine = lines[at + oldIndex]
+        result.push(unterminated && at + oldIndex === lastLine ? fileLine + '\r' : fileLine)
+        oldIndex++
+      } else if (line.op === '-') {
+        oldIndex++
+      } else {
+        result.push(crlf ? line.text + '\r' : line.text)
+      }
+    }
+    cursor = at + hunk.oldLines.length
+    drift = at - (expected - drift)
+
+    // A hunk reaching the end of the file says whether the new last line ends with a newline
+    if (cursor >= lines.length && hunk.lines.some(line => line.op !== '-')) {
+      finalNewline = !hunk.newNoNewline
+    }
+  })
+
+  if (failed.length > 0) return { text, failed }
+
+  result.push(...lines.slice(cursor))
+  // In a CRLF file the last line has a \r only when a line break follows
+  let patched = result.join('\n')
+  if (finalNewline && result.length > 0) {
+    patched += crlf && !patched.endsWith('\r') ? '\r\n' : '\n'
+  } else if (crlf && patched.endsWith('\r')) {
+    patched = patched.slice(0, -1)
+  }
+  return { text: patched, failed }
+}
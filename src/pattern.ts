@@ -0,0 +1,145 @@
+/**
+ * CloudForge Agent Search Patterns
+ * Compiles client search patterns and matches them in a worker thread, so a
+ * pattern that backtracks catastrophically times out instead of blocking the agent
+ */
+
+import { Worker } from 'worker_threads'
+
+// Longest pattern a client may search for
+const MAX_PATTERN_LENGTH = 1000
+
+// Longest one batch of lines may take before the pattern is given up on
+const MATCH_TIMEOUT_MS = 5000
+
+export interface PatternOptions {
+  pattern: string
+  /** Treat pattern as a regular expression instead of literal text */
+  regex?: boolean
+  caseSensitive?: boolean
+}
+
+export interface LineMatch {
+  /** Index of the line in the batch */
+  index: number
+  /** Matched ranges within the line as [start, end) indices */
+  ranges: [number, number][]
+}
+
+export interface LinesMatchResult {
+  matches: LineMatch[]
+  /** Index of the first line not searched once the limit was reached, or null when all were */
+  next: number | null
+}
+
+/**
+ * Build the search expression, throwing on a missing, overlong or invalid pattern
+ */
+export function compilePattern(options: PatternOptions): RegExp {
+  if (!options.pattern) {
+    throw new Error('Search pattern is required')
+  }
+  if (options.pattern.length > MAX_PATTERN_LENGTH) {
+    throw new Error(`Search pattern too long (maximum ${MAX_PATTERN_LENGTH} characters)`)
+  }
+  const source = options.regex
+    ? options.pattern
+    : options.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  try {
+    return new RegExp(source, options.caseSensitive ? 'g' : 'gi')
+  } catch (err) {
+    throw new Error(`Invalid search pattern: ${err instanceof Error ? err.message : String(err)}`)
+  }
+}
+
+// Plain JavaScript, evaluated by the worker, so it runs the same from src/ and dist/
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads')
+const expression = new RegExp(workerData.source, workerData.flags)
+
+parentPort.on('message', ({ lines, limit }) => {
+  const matches = []
+  let next = null
+  for (let index = 0; index < lines.length; index++) {
+    if (matches.length === limit) {
+      next = index
+      break
+    }
+    const text = lines[index]
+    const ranges = []
+    expression.lastIndex = 0
+    let match
+    while ((match = expression.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        // Empty match; step past it so the loop can't stall
+        expression.lastIndex++
+        continue
+      }
+      ranges.push([match.index, match.index + match[0].length])
+    }
+    if (ranges.length > 0) matches.push({ index, ranges })
+  }
+  parentPort.postMessage({ matches, next })
+})
+`
+
+/**
+ * Matches one pattern against batches of lines off the main thread.
+ * Batches run one at a time; close() when done.
+ */
+export class PatternMatcher {
+  private worker: Worker
+  private closed = false
+
+  /** Throws like compilePattern for a bad pattern */
+  constructor(options: PatternOptions) {
+    const expression = compilePattern(options)
+    this.worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { source: expression.source, flags: expression.flags },
+    })
+    this.worker.unref()
+  }
+
+  /**
+   * Find the lines matching the pattern, stopping after limit matching lines
+   */
+  match(lines: string[], limit = Infinity): Promise<LinesMatchResult> {
+    if (this.closed) {
+      return Promise.reject(new Error('Pattern matcher is closed'))
+    }
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer)
+        this.worker.off('message', onMessage)
+        this.worker.off('error', onError)
+      }
+      const onMessage = (result: LinesMatchResult) => {
+        cleanup()
+        resolve(result)
+      }
+      const onError = (err: Error) => {
+        cleanup()
+        this.close()
+        reject(err)
+      }
+      const timer = setTimeout(() => {
+        cleanup()
+        // Terminating the worker is the only way to stop a runaway match
+        this.close()
+        reject(new Error(`Search pattern took too long (over ${MATCH_TIMEOUT_MS / 1000}s)`))
+      }, MATCH_TIMEOUT_MS)
+
+      this.worker.on('message', onMessage)
+      this.worker.on('error', onError)
+      this.worker.postMessage({ lines, limit })
+    })
+  }
+
+  close(): void {
+    if (this.closed) return
+    this.closed = true
+    void this.worker.terminate()
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * CloudForge Agent Process Inspection
+ * Reads a terminal's foreground process group from /proc (Linux only)
+ */
+
+import * as fs from 'fs/promises'
+import { existsSync, readFileSync } from 'fs'
+
+// Kernel clock ticks per second for /proc start times (USER_HZ, 100 on all common Linux builds)
+const CLOCK_TICKS = 100
+
+export interface ForegroundProcess {
+  pid: number
+  name: string
+  argv: string[]
+  startedAt: number
+}
+
+export type SessionActivity = 'busy' | 'idle' | 'unknown'
+
+/**
+ * Whether /proc-based inspection is available on this platform
+ */
+export const procAvailable = process.platform === 'linux' && existsSync('/proc/self/stat')
+
+let bootTime: number | null = null
+
+/**
+ * System boot time in ms since epoch, from /proc/stat btime
+ */
+function getBootTime(): number {
+  if (bootTime === null) {
+    const match = /^btime (\d+)$/m.exec(readFileSync('/proc/stat', 'utf8'))
+    bootTime = match ? parseInt(match[1], 10) * 1000 : 0
+  }
+  return bootTime
+}
+
+/**
+ * Parse /proc/<pid>/stat. Fields are returned from field 3 (state) onwards,
+ * since the command name in field 2 may itself contain spaces and parentheses.
+ */
+async function readStat(pid: number): Promise<string[]> {
+  const stat = await fs.readFile(`/proc/${pid}/stat`, 'utf8')
+  return stat.slice(stat.lastIndexOf(')') + 2).split(' ')
+}
+
+/**
+ * Find the foreground process of the terminal a shell is attached to.
+ * Returns the shell itself when it is sitting at its prompt.
+ */
+export async function readForegroundProcess(shellPid: number): Promise<ForegroundProcess | null> {
+  if (!procAvailable) return null
+
+  try {
+    // Field 8: tpgid, the foreground process group of the controlling terminal
+    const shellStat = await readStat(shellPid)
+    const tpgid = parseInt(shellStat[8 - 3], 10)
+    const pid = tpgid > 0 ? tpgid : shellPid
+
+    const [stat, comm, cmdline] = await Promise.all([
+      readStat(pid),
+      fs.readFile(`/proc/${pid}/comm`, 'utf8'),
+      fs.readFile(`/proc/${pid}/cmdline`, 'utf8'),
+    ])
+
+    // Field 22: start time in clock ticks since boot
+    const startTicks = parseInt(stat[22 - 3], 10)
+
+    return {
+      pid,
+      name: comm.trim(),
+      argv: cmdline.split('\0').filter(Boolean),
+      startedAt: getBootTime() + Math.round((startTicks / CLOCK_TICKS) * 1000),
+    }
+  } catch {
+    // Process exited between reads
+    return null
+  }
+}
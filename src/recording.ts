@@ -0,0 +1,214 @@
+/**
+ * CloudForge Agent Session Recording
+ * Records terminal sessions as asciicast v2 files for audit and replay
+ */
+
+import * as fs from 'fs'
+import * as fsp from 'fs/promises'
+import * as path from 'path'
+import * as os from 'os'
+import chalk from 'chalk'
+import type { AgentConfig } from './config.js'
+
+// Recordings live under ~/.cloudforge/recordings/<sessionId>/<recordingId>.cast
+const RECORDINGS_DIR = path.join(os.homedir(), '.cloudforge', 'recordings')
+
+// Default and maximum chunk size for recording downloads
+const DEFAULT_CHUNK_SIZE = 256 * 1024
+const MAX_CHUNK_SIZE = 1024 * 1024
+
+export interface RecordingInfo {
+  recordingId: string
+  sessionId: string
+  size: number
+  createdAt: string
+  modified: string
+}
+
+export interface RecordingChunk {
+  recordingId: string
+  sessionId: string
+  offset: number
+  bytesRead: number
+  size: number
+  content: string
+  encoding: 'base64'
+  eof: boolean
+}
+
+/**
+ * Turn an ID into a safe single path segment
+ */
+function safeSegment(id: string): string {
+  const segment = id.replace(/[^A-Za-z0-9_.-]/g, '_')
+  if (!segment || segment === '.' || segment === '..') {
+    throw new Error(`Invalid ID: ${id}`)
+  }
+  return segment
+}
+
+function sessionDir(sessionId: string): string {
+  return path.join(RECORDINGS_DIR, safeSegment(sessionId))
+}
+
+function recordingPath(sessionId: string, recordingId: string): string {
+  return path.join(sessionDir(sessionId), `${safeSegment(recordingId)}.cast`)
+}
+
+/**
+ * Writes one asciicast v2 file: a JSON header line followed by
+ * [elapsedSeconds, eventType, data] lines for output, input and resize events
+ */
+export class SessionRecorder {
+  readonly sessionId: string
+  readonly recordingId: string
+  private stream: fs.WriteStream
+  private startTime: number
+  private closed = false
+
+  constructor(sessionId: string, meta: { cols: number; rows: number; shell: string }) {
+    this.sessionId = sessionId
+    this.startTime = Date.now()
+    this.recordingId = new Date(this.startTime).toISOString().replace(/[:.]/g, '-')
+
+    const filePath = recordingPath(sessionId, this.recordingId)
+    fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 })
+    this.stream = fs.createWriteStream(filePath, { flags: 'a', mode: 0o600 })
+    this.stream.on('error', (err) => {
+      console.error(chalk.red(`Recording error (${sessionId}):`), err)
+      this.closed = true
+    })
+
+    this.writeLine({
+      version: 2,
+      width: meta.cols,
+      height: meta.rows,
+      timestamp: Math.floor(this.startTime / 1000),
+      env: {
+        SHELL: meta.shell,
+        TERM: 'xterm-256color',
+      },
+    })
+  }
+
+  private writeLine(value: unknown): void {
+    if (this.closed) return
+    this.stream.write(JSON.stringify(value) + '\n')
+  }
+
+  private event(type: 'o' | 'i' | 'r', data: string): void {
+    const elapsed = (Date.now() - this.startTime) / 1000
+    this.writeLine([Number(elapsed.toFixed(6)), type, data])
+  }
+
+  output(data: string): void {
+    this.event('o', data)
+  }
+
+  input(data: string): void {
+    this.event('i', data)
+  }
+
+  resize(cols: number, rows: number): void {
+    this.event('r', `${cols}x${rows}`)
+  }
+
+  close(): void {
+    if (this.closed) return
+    this.closed = true
+    this.stream.end()
+  }
+}
+
+export class RecordingManager {
+  private config: AgentConfig
+
+  constructor(config: AgentConfig) {
+    this.config = config
+  }
+
+  /**
+   * List recordings of a session, oldest first
+   */
+  async list(sessionId: string): Promise<RecordingInfo[]> {
+    if (this.config.debug) {
+      console.log(chalk.gray(`Recordings list: ${sessionId}`))
+    }
+
+    let names: string[]
+    try {
+      names = await fsp.readdir(sessionDir(sessionId))
+    } catch {
+      return []
+    }
+
+    const results: RecordingInfo[] = []
+    for (const name of names.filter(n => n.endsWith('.cast')).sort()) {
+      try {
+        const stats = await fsp.stat(path.join(sessionDir(sessionId), name))
+        results.push({
+          recordingId: name.slice(0, -'.cast'.length),
+          sessionId,
+          size: stats.size,
+          createdAt: stats.birthtime.toISOString(),
+          modified: stats.mtime.toISOString(),
+        })
+      } catch {
+        // Deleted while listing
+      }
+    }
+    return results
+  }
+
+  /**
+   * Read one chunk of a recording file
+   */
+  async read(sessionId: string, recordingId: string, offset = 0, length = DEFAULT_CHUNK_SIZE): Promise<RecordingChunk> {
+    const filePath = recordingPath(sessionId, recordingId)
+    const chunkSize = Math.min(Math.max(length, 1), MAX_CHUNK_SIZE)
+
+    if (this.config.debug) {
+      console.log(chalk.gray(`Recording read: ${filePath}, offset=${offset}, length=${chunkSize}`))
+    }
+
+    const handle = await fsp.open(filePath, 'r')
+    try {
+      const { size } = await handle.stat()
+      const buffer = Buffer.alloc(Math.min(chunkSize, Math.max(size - offset, 0)))
+      const { bytesRead } = buffer.length > 0
+        ? await handle.read(buffer, 0, buffer.length, offset)
+        : { bytesRead: 0 }
+
+      return {
+        recordingId,
+        sessionId,
+        offset,
+        bytesRead,
+        size,
+        content: buffer.subarray(0, bytesRead).toString('base64'),
+        encoding: 'base64',
+        eof: offset + bytesRead >= size,
+      }
+    } finally {
+      await handle.close()
+    }
+  }
+
+  /**
+   * Delete one recording, or all recordings of a session when no recordingId is given
+   */
+  async delete(sessionId: string, recordingId?: string): Promise<{ deleted: string[] }> {
+    if (this.config.debug) {
+      console.log(chalk.gray(`Recording delete: ${sessionId}/${recordingId || '*'}`))
+    }
+
+    if (recordingId) {
+      await fsp.unlink(recordingPath(sessionId, recordingId))
+      return { deleted: [recordingId] }
+    }
+
+    const recordings = await this.list(sessionId)
+    await fsp.rm(sessionDir(sessionId), { recursive: true, force: true })
+    return { deleted: recordings.map(r => r.recordingId) }
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * CloudForge Agent Secret Redaction
+ * Masks API keys and tokens in terminal output before it reaches scrollback,
+ * recordings or the dashboard, and in recorded input. Input written to the
+ * PTY is never touched.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import * as os from 'os'
+import type { AgentConfig } from './config.js'
+
+// Secrets deployed via auth:deploy, masked wherever they show up
+const AUTH_ENV_DIR = path.join(os.homedir(), '.cloudforge', 'env')
+
+// Trailing output that could be the start of a secret is held back this long
+// waiting for the rest of it, so keystroke echo is barely delayed
+const HOLD_MS = 10
+
+// Longest run of secret-like characters held back across chunks
+const MAX_HOLD = 512
+
+// Already-sent output kept as context for patterns like "key = value"
+const LOOKBEHIND = 64
+
+// Shorter literal secrets would mask too much ordinary output
+const MIN_SECRET_LENGTH = 8
+
+// Characters secrets are made of; a match can only straddle chunks inside such a run
+const SECRET_RUN = /[A-Za-z0-9_\-/+=]+$/
+
+// A named group "secret" limits masking to that part of the match
+const BUILTIN_PATTERNS: RegExp[] = [
+  // CloudForge agent tokens
+  /cf_[a-f0-9]{32}/g,
+  // AWS access key IDs and secret access keys
+  /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g,
+  /aws_secret_access_key["']?\s*[=:]\s*["']?(?<secret>[A-Za-z0-9/+=]{40})/gid,
+  // GitHub personal access, OAuth, app and refresh tokens
+  /\bgh[pousr]_[A-Za-z0-9]{36,255}\b/g,
+  /\bgithub_pat_[A-Za-z0-9_]{22,255}\b/g,
+  // OpenAI-style keys (sk-..., sk-proj-..., sk-ant-...)
+  /\bsk-[A-Za-z0-9_-]{20,}/g,
+]
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Compile a user-supplied pattern, throwing on invalid syntax
+ */
+export function compileRedactPattern(source: string): RegExp {
+  try {
+    return new RegExp(source, 'gd')
+  } catch (err) {
+    throw new Error(`Invalid redaction pattern "${source}": ${err instanceof Error ? err.message : String(err)}`)
+  }
+}
+
+export class SecretRedactor {
+  private patterns: RegExp[]
+  private secrets = new Set<string>()
+  private literal: RegExp | null = null
+  readonly enabled: boolean
+
+  constructor(config: AgentConfig) {
+    this.enabled = config.redact
+    this.patterns = [...BUILTIN_PATTERNS, ...config.redactPatterns.map(compileRedactPattern)]
+    if (this.enabled) {
+      this.loadDeployedSecrets()
+    }
+  }
+
+  /**
+   * Mask a literal secret from now on
+   */
+  addSecret(value: string): void {
+    if (value.length < MIN_SECRET_LENGTH || this.secrets.has(value)) return
+    this.secrets.add(value)
+    // Longest first, so a secret containing another is masked whole
+    const sorted = Array.from(this.secrets).sort((a, b) => b.length - a.length)
+    this.literal = new RegExp(sorted.map(escapeRegExp).join('|'), 'g')
+  }
+
+  /**
+   * Mask every secret in a complete piece of text. Masking keeps the
+   * length, so columns and stream offsets are unaffected.
+   */
+  redact(text: string): string {
+    if (!this.enabled) return text
+
+    const ranges: [number, number][] = []
+    for (const pattern of this.literal ? [...this.patterns, this.literal] : this.patterns) {
+      pattern.lastIndex = 0
+      let match: RegExpExecArray | null
+      while ((match = pattern.exec(text)) !== null) {
+        if (match[0].length === 0) {
+          pattern.lastIndex++
+          continue
+        }
+        const group = match.indices?.groups?.secret
+        ranges.push(group ? [group[0], group[1]] : [match.index, match.index + match[0].length])
+      }
+    }
+    if (ranges.length === 0) return text
+
+    const chars = text.split('')
+    for (const [start, end] of ranges) {
+      for (let i = start; i < end; i++) {
+        if (chars[i] !== '\n' && chars[i] !== '\r') chars[i] = '*'
+      }
+    }
+    return chars.join('')
+  }
+
+  /**
+   * Redaction state for one output stream
+   */
+  createStream(emit: (data: string) => void): RedactionStream {
+    return new RedactionStream(this, emit)
+  }
+
+  /**
+   * Pick up values written to ~/.cloudforge/env by earlier auth:deploy requests
+   */
+  private loadDeployedSecrets(): void {
+    let files: string[]
+    try {
+      files = fs.readdirSync(AUTH_ENV_DIR).filter(file => file.endsWith('.env'))
+    } catch {
+      return
+    }
+    for (const file of files) {
+      try {
+        const content = fs.readFileSync(path.join(AUTH_ENV_DIR, file), 'utf8')
+        for (const match of content.matchAll(/^export \w+="(.*)"$/gm)) {
+          this.addSecret(match[1])
+        }
+      } catch {
+        // Unreadable, skip
+      }
+    }
+  }
+}
+
+/**
+ * Redacts one stream of output chunks. A secret split across chunks is
+ * caught by holding back a trailing run of secret-like characters until
+ * the next chunk arrives (or briefly, if none does).
+ */
+export class RedactionStream {
+  private redactor: SecretRedactor
+  private emit: (data: string) => void
+  private pending = ''
+  private sent = ''
+  private holdTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(redactor: SecretRedactor, emit: (data: string) => void) {
+    this.redactor = redactor
+    this.emit = emit
+  }
+
+  write(chunk: string): void {
+    if (!this.redactor.enabled) {
+      this.emit(chunk)
+      return
+    }
+
+    if (this.holdTimer) {
+      clearTimeout(this.holdTimer)
+      this.holdTimer = null
+    }
+
+    const text = this.pending + chunk
+    const run = SECRET_RUN.exec(text)
+    const cut = run ? Math.max(run.index, text.length - MAX_HOLD) : text.length
+
+    // Redact with already-sent context and the held tail in view, then send
+    // everything before the tail
+    const masked = this.redactor.redact(this.sent + text).slice(this.sent.length)
+    this.pending = text.slice(cut)
+    this.sent = (this.sent + text.slice(0, cut)).slice(-LOOKBEHIND)
+    if (cut > 0) {
+      this.emit(masked.slice(0, cut))
+    }
+
+    if (this.pending) {
+      this.holdTimer = setTimeout(() => this.flush(), HOLD_MS)
+    }
+  }
+
+  /**
+   * Send whatever is held back
+   */
+  flush(): void {
+    if (this.holdTimer) {
+      clearTimeout(this.holdTimer)
+      this.holdTimer = null
+    }
+    if (!this.pending) return
+    const masked = this.redactor.redact(this.sent + this.pending).slice(this.sent.length)
+    this.sent = (this.sent + this.pending).slice(-LOOKBEHIND)
+    this.pending = ''
+    this.emit(masked)
+  }
+}
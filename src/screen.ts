@@ -0,0 +1,67 @@
+/**
+ * CloudForge Agent Screen Model
+ * Headless terminal emulator that tracks a session's screen so reattaching
+ * clients get a clean snapshot instead of a raw byte replay
+ */
+
+import xtermHeadless from '@xterm/headless'
+import serializeAddon from '@xterm/addon-serialize'
+
+const { Terminal } = xtermHeadless
+const { SerializeAddon } = serializeAddon
+
+// Approximate size of one buffer cell in the emulator (xterm.js keeps three 32-bit values per cell)
+const BYTES_PER_CELL = 12
+
+export class ScreenModel {
+  private terminal: InstanceType<typeof Terminal>
+  private serializer: InstanceType<typeof SerializeAddon>
+
+  /** Memory the emulator's scrollback may use, in bytes */
+  readonly limit: number
+
+  constructor(cols: number, rows: number, scrollbackBytes: number) {
+    this.limit = scrollbackBytes
+    this.terminal = new Terminal({
+      cols,
+      rows,
+      scrollback: scrollbackLines(scrollbackBytes, cols),
+      allowProposedApi: true,
+    })
+    this.serializer = new SerializeAddon()
+    this.terminal.loadAddon(this.serializer)
+  }
+
+  write(data: string): void {
+    this.terminal.write(data)
+  }
+
+  resize(cols: number, rows: number): void {
+    this.terminal.resize(cols, rows)
+    // Wider lines cost more, so keep the line count within the byte budget
+    this.terminal.options.scrollback = scrollbackLines(this.limit, cols)
+  }
+
+  /**
+   * Serialize scrollback, visible screen, cursor and terminal modes once
+   * all pending output has been parsed. Writing the result into a fresh
+   * terminal of the same size reproduces the current state.
+   */
+  snapshot(): Promise<string> {
+    return new Promise((resolve) => {
+      this.terminal.write('', () => resolve(this.serializer.serialize()))
+    })
+  }
+
+  dispose(): void {
+    this.serializer.dispose()
+    this.terminal.dispose()
+  }
+}
+
+/**
+ * Number of scrollback lines that fit in a byte budget at a given width
+ */
+function scrollbackLines(bytes: number, cols: number): number {
+  return Math.floor(bytes / (cols * BYTES_PER_CELL))
+}
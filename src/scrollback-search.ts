@@ -0,0 +1,174 @@
+/**
+ * CloudForge Agent Scrollback Search
+ * Turns raw terminal output into plain text lines and searches or pages through them
+ */
+
+import { PatternMatcher, type PatternOptions } from './pattern.js'
+
+// Most lines returned by one search or read request
+const MAX_RESULTS = 500
+const DEFAULT_SEARCH_RESULTS = 50
+const DEFAULT_READ_LINES = 100
+
+// Most context lines around a match
+const MAX_CONTEXT = 20
+
+const OSC_SEQUENCE = /\x1b\][\s\S]*?(?:\x07|\x1b\\)/g
+const STRING_SEQUENCE = /\x1b[P^_X][\s\S]*?\x1b\\/g
+const CSI_SEQUENCE = /\x1b\[[0-?]*[ -/]*[@-~]/g
+const ESC_SEQUENCE = /\x1b[ -/]*[0-~]?/g
+const CONTROL_CHARS = /[\x00-\x07\x0b\x0c\x0e-\x1f\x7f]/g
+
+export interface SearchOptions extends PatternOptions {
+  /** Lines of context before and after each match */
+  context?: number
+  /** 1-based line to start from (inclusive) */
+  fromLine?: number
+  /** Search towards older output, starting at the newest line by default */
+  backward?: boolean
+  /** Most matching lines to return */
+  limit?: number
+}
+
+export interface SearchMatch {
+  line: number
+  text: string
+  /** Matched ranges within text as [start, end) indices */
+  ranges: [number, number][]
+  before: string[]
+  after: string[]
+}
+
+export interface SearchResult {
+  matches: SearchMatch[]
+  totalLines: number
+  /** Line to pass as fromLine for the next page, or null when done */
+  nextLine: number | null
+}
+
+export interface ReadLinesOptions {
+  fromLine?: number
+  backward?: boolean
+  count?: number
+}
+
+export interface ReadLinesResult {
+  /** 1-based line number of the first returned line */
+  fromLine: number
+  lines: string[]
+  totalLines: number
+  nextLine: number | null
+}
+
+/**
+ * Remove escape sequences and apply carriage returns and backspaces
+ * the way a terminal would display them
+ */
+export function toPlainLines(raw: string): string[] {
+  const text = raw
+    .replace(OSC_SEQUENCE, '')
+    .replace(STRING_SEQUENCE, '')
+    .replace(CSI_SEQUENCE, '')
+    .replace(ESC_SEQUENCE, '')
+    .replace(CONTROL_CHARS, '')
+
+  return text.split('\n').map((line) => {
+    if (!line.includes('\r') && !line.includes('\x08')) return line
+    // Carriage return and backspace move the cursor; later text overwrites
+    const cells: string[] = []
+    let cursor = 0
+    for (const char of line) {
+      if (char === '\r') {
+        cursor = 0
+      } else if (char === '\x08') {
+        cursor = Math.max(0, cursor - 1)
+      } else {
+        cells[cursor++] = char
+      }
+    }
+    return cells.join('')
+  })
+}
+
+function clamp(value: number | undefined, fallback: number, max: number): number {
+  if (value === undefined || !Number.isFinite(value)) return fallback
+  return Math.max(0, Math.min(Math.floor(value), max))
+}
+
+/**
+ * Index of the first line to visit (out of range when fromLine is past either end)
+ */
+function startIndex(fromLine: number | undefined, backward: boolean, total: number): number {
+  if (fromLine === undefined) return backward ? total - 1 : 0
+  const index = Math.floor(fromLine) - 1
+  if (backward) return Math.min(index, total - 1)
+  return index < 0 ? 0 : index
+}
+
+/**
+ * Find lines matching a pattern. The pattern runs in a worker, so one that
+ * takes too long fails the search instead of blocking the agent.
+ */
+export async function searchLines(lines: string[], options: SearchOptions): Promise<SearchResult> {
+  const matcher = new PatternMatcher(options)
+  const context = clamp(options.context, 2, MAX_CONTEXT)
+  const limit = clamp(options.limit, DEFAULT_SEARCH_RESULTS, MAX_RESULTS) || DEFAULT_SEARCH_RESULTS
+  const backward = options.backward || false
+  const start = startIndex(options.fromLine, backward, lines.length)
+
+  // Lines in search order; position p in the batch is line index start ± p
+  const batch = start < 0 || start >= lines.length
+    ? []
+    : backward ? lines.slice(0, start + 1).reverse() : lines.slice(start)
+  const toIndex = (position: number) => backward ? start - position : start + position
+
+  let found
+  try {
+    found = await matcher.match(batch, limit)
+  } finally {
+    matcher.close()
+  }
+
+  const matches = found.matches.map(({ index: position, ranges }): SearchMatch => {
+    const index = toIndex(position)
+    return {
+      line: index + 1,
+      text: lines[index],
+      ranges,
+      before: lines.slice(Math.max(0, index - context), index),
+      after: lines.slice(index + 1, index + 1 + context),
+    }
+  })
+  return { matches, totalLines: lines.length, nextLine: found.next === null ? null : toIndex(found.next) + 1 }
+}
+
+/**
+ * Read a page of lines
+ */
+export function readLines(lines: string[], options: ReadLinesOptions): ReadLinesResult {
+  const count = clamp(options.count, DEFAULT_READ_LINES, MAX_RESULTS) || DEFAULT_READ_LINES
+  const start = startIndex(options.fromLine, options.backward || false, lines.length)
+
+  if (start < 0 || start >= lines.length) {
+    return { fromLine: start + 1, lines: [], totalLines: lines.length, nextLine: null }
+  }
+
+  if (options.backward) {
+    // Page ends at the start line, moving towards older output
+    const first = Math.max(0, start - count + 1)
+    return {
+      fromLine: first + 1,
+      lines: lines.slice(first, start + 1),
+      totalLines: lines.length,
+      nextLine: first > 0 ? first : null,
+    }
+  }
+
+  const end = Math.min(lines.length, start + count)
+  return {
+    fromLine: start + 1,
+    lines: lines.slice(start, end),
+    totalLines: lines.length,
+    nextLine: end < lines.length ? end + 1 : null,
+  }
+}
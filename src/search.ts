@@ -0,0 +1,437 @@
+/**
+ * CloudForge Agent Content Search
+ * Searches file contents under a directory, using ripgrep when it is
+ * installed and a built-in walker otherwise. Both honour .gitignore.
+ */
+
+import * as fsp from 'fs/promises'
+import * as path from 'path'
+import { spawn, execFileSync, type ChildProcess } from 'child_process'
+import chalk from 'chalk'
+import type { AgentConfig } from './config.js'
+import type { FileManager } from './files.js'
+import { compileGlob, matchGlob, walkFiles } from './ignore.js'
+import { PatternMatcher } from './pattern.js'
+
+// Result caps: default and hard maximum matching lines per search
+const DEFAULT_MAX_RESULTS = 1000
+const MAX_RESULTS = 10000
+
+// Most searches running at once
+const MAX_SEARCHES = 8
+
+// Results are sent in batches of this size, or after this long
+const BATCH_SIZE = 50
+const BATCH_INTERVAL_MS = 100
+
+// Longest preview sent for a matching line, and how much of the line before the first match it keeps
+const MAX_PREVIEW = 250
+const PREVIEW_LEAD = 50
+
+// Larger files are skipped, as are files with a NUL byte near the start
+const MAX_FILE_SIZE = 10 * 1024 * 1024
+const BINARY_SNIFF_BYTES = 8000
+
+export type SearchEngine = 'ripgrep' | 'node'
+
+export interface FileSearchOptions {
+  /** Directory to search (default: the agent's home directory) */
+  root?: string
+  pattern: string
+  /** Treat pattern as a regular expression (ripgrep syntax when ripgrep is used) */
+  regex?: boolean
+  caseSensitive?: boolean
+  /** Only search files matching one of these globs */
+  include?: string[]
+  /** Skip files and directories matching these globs */
+  exclude?: string[]
+  /** Search dotfiles and dot-directories too */
+  hidden?: boolean
+  maxResults?: number
+}
+
+export interface FileSearchMatch {
+  path: string
+  /** 1-based line number */
+  line: number
+  /** 1-based column of the first match in the line */
+  column: number
+  preview: string
+  /** Matched ranges within preview as [start, end) indices */
+  ranges: [number, number][]
+}
+
+export interface FileSearchInfo {
+  searchId: string
+  root: string
+  engine: SearchEngine
+}
+
+export interface FileSearchSummary extends FileSearchInfo {
+  /** Matching lines found */
+  results: number
+  /** Files with at least one match */
+  files: number
+  /** Stopped at maxResults */
+  truncated: boolean
+  cancelled: boolean
+  durationMs: number
+  error?: string
+}
+
+export interface FileSearchHandlers {
+  onResults: (results: FileSearchMatch[]) => void
+  onDone: (summary: FileSearchSummary) => void
+}
+
+/**
+ * Cut a long line down to a window around its first match
+ */
+function makePreview(text: string, ranges: [number, number][]): { preview: string; ranges: [number, number][] } {
+  if (text.length <= MAX_PREVIEW) return { preview: text, ranges }
+  const start = Math.max(0, Math.min(ranges[0][0] - PREVIEW_LEAD, text.length - MAX_PREVIEW))
+  const end = start + MAX_PREVIEW
+  return {
+    preview: text.slice(start, end),
+    ranges: ranges
+      .filter(([from, to]) => to > start && from < end)
+      .map(([from, to]) => [Math.max(from, start) - start, Math.min(to, end) - start]),
+  }
+}
+
+/**
+ * Convert a byte offset within a UTF-8 line to a string index
+ */
+function byteToIndex(line: Buffer, offset: number): number {
+  return line.subarray(0, offset).toString('utf8').length
+}
+
+// ripgrep --json strings are text, or base64 bytes when not valid UTF-8
+interface RipgrepData {
+  text?: string
+  bytes?: string
+}
+
+interface RipgrepMessage {
+  type: 'begin' | 'match' | 'context' | 'end' | 'summary'
+  data: {
+    path?: RipgrepData
+    lines?: RipgrepData
+    line_number?: number
+    submatches?: { start: number; end: number }[]
+  }
+}
+
+function decodeField(field: RipgrepData | undefined): Buffer | null {
+  if (!field) return null
+  if (field.text !== undefined) return Buffer.from(field.text, 'utf8')
+  if (field.bytes !== undefined) return Buffer.from(field.bytes, 'base64')
+  return null
+}
+
+/**
+ * State of one running search: batches results and enforces the cap
+ */
+class SearchRun {
+  readonly info: FileSearchInfo
+  readonly maxResults: number
+  private handlers: FileSearchHandlers
+  private batch: FileSearchMatch[] = []
+  private batchTimer: ReturnType<typeof setTimeout> | null = null
+  private files = new Set<string>()
+  private startedAt = Date.now()
+  results = 0
+  truncated = false
+  cancelled = false
+  child: ChildProcess | null = null
+
+  constructor(info: FileSearchInfo, maxResults: number, handlers: FileSearchHandlers) {
+    this.info = info
+    this.maxResults = maxResults
+    this.handlers = handlers
+  }
+
+  /** The search should stop: cancelled or the cap was reached */
+  get stopped(): boolean {
+    return this.cancelled || this.truncated
+  }
+
+  /**
+   * Record a matching line. Returns false once the search should stop.
+   */
+  add(filePath: string, line: number, text: string, ranges: [number, number][]): boolean {
+    if (this.stopped) return false
+    if (this.results >= this.maxResults) {
+      this.truncated = true
+      return false
+    }
+
+    const preview = makePreview(text.replace(/\r?\n$|\r$/, ''), ranges)
+    this.results++
+    this.files.add(filePath)
+    this.batch.push({ path: filePath, line, column: ranges[0][0] + 1, ...preview })
+
+    if (this.batch.length >= BATCH_SIZE) {
+      this.flush()
+    } else if (!this.batchTimer) {
+      this.batchTimer = setTimeout(() => this.flush(), BATCH_INTERVAL_MS)
+    }
+    return true
+  }
+
+  flush(): void {
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer)
+      this.batchTimer = null
+    }
+    if (this.batch.length === 0) return
+    const results = this.batch
+    this.batch = []
+    this.handlers.onResults(results)
+  }
+
+  finish(error?: string): void {
+    this.flush()
+    this.handlers.onDone({
+      ...this.info,
+      results: this.results,
+      files: this.files.size,
+      truncated: this.truncated,
+      cancelled: this.cancelled,
+      durationMs: Date.now() - this.startedAt,
+      ...(error ? { error } : {}),
+    })
+  }
+}
+
+export class SearchManager {
+  private config: AgentConfig
+  private fileManager: FileManager
+  private searches = new Map<string, SearchRun>()
+  private ripgrep: boolean | null = null
+
+  constructor(config: AgentConfig, fileManager: FileManager) {
+    this.config = config
+    this.fileManager = fileManager
+  }
+
+  /**
+   * Check if ripgrep is on the PATH (checked once)
+   */
+  private hasRipgrep(): boolean {
+    if (this.ripgrep === null) {
+      try {
+        execFileSync('rg', ['--version'], { stdio: 'ignore', timeout: 3000 })
+        this.ripgrep = true
+      } catch {
+        this.ripgrep = false
+      }
+    }
+    return this.ripgrep
+  }
+
+  /**
+   * Start a search. Results arrive in batches through handlers.onResults,
+   * followed by exactly one handlers.onDone.
+   */
+  async search(searchId: string, options: FileSearchOptions, handlers: FileSearchHandlers): Promise<FileSearchInfo> {
+    if (this.searches.has(searchId)) {
+      throw new Error(`Search ${searchId} already exists`)
+    }
+    if (this.searches.size >= MAX_SEARCHES) {
+      throw new Error(`Too many searches running (maximum ${MAX_SEARCHES})`)
+    }
+    if (!options.pattern) {
+      throw new Error('Search pattern is required')
+    }
+
+    const root = this.fileManager.resolvePath(options.root || this.config.homeDir)
+    const stats = await fsp.stat(root)
+    if (!stats.isDirectory()) {
+      throw new Error(`Not a directory: ${root}`)
+    }
+
+    const engine: SearchEngine = this.hasRipgrep() ? 'ripgrep' : 'node'
+    // Validate up front so a bad regex fails the request instead of the search
+    const matcher = engine === 'node' ? new PatternMatcher(options) : null
+
+    const maxResults = Math.min(Math.max(Math.floor(options.maxResults || DEFAULT_MAX_RESULTS), 1), MAX_RESULTS)
+    const info: FileSearchInfo = { searchId, root, engine }
+    const run = new SearchRun(info, maxResults, handlers)
+    this.searches.set(searchId, run)
+
+    if (this.config.debug) {
+      console.log(chalk.gray(`Files search: ${searchId}, ${root}, engine=${engine}, pattern=${JSON.stringify(options.pattern)}`))
+    }
+
+    const done = (error?: string) => {
+      this.searches.delete(searchId)
+      if (this.config.debug) {
+        console.log(chalk.gray(`Files search done: ${searchId}, results=${run.results}${error ? `, error=${error}` : ''}`))
+      }
+      run.finish(error)
+    }
+
+    if (engine === 'ripgrep') {
+      this.runRipgrep(run, options, done)
+    } else {
+      this.runNode(run, options, matcher!)
+        .then(() => done())
+        .catch((err) => done(err instanceof Error ? err.message : String(err)))
+    }
+
+    return info
+  }
+
+  /**
+   * Stop a running search. Its onDone still fires, with cancelled set.
+   */
+  cancel(searchId: string): boolean {
+    const run = this.searches.get(searchId)
+    if (!run) return false
+
+    if (this.config.debug) {
+      console.log(chalk.gray(`Files search cancel: ${searchId}`))
+    }
+
+    run.cancelled = true
+    run.child?.kill()
+    return true
+  }
+
+  /**
+   * Stop all running searches
+   */
+  cancelAll(): void {
+    for (const searchId of this.searches.keys()) {
+      this.cancel(searchId)
+    }
+  }
+
+  /**
+   * Search with ripgrep, reading its JSON output line by line
+   */
+  private runRipgrep(run: SearchRun, options: FileSearchOptions, done: (error?: string) => void): void {
+    const args = [
+      '--json',
+      '--no-config',
+      // Honour .gitignore outside git repositories too
+      '--no-require-git',
+      '--max-filesize', String(MAX_FILE_SIZE),
+      options.caseSensitive ? '--case-sensitive' : '--ignore-case',
+    ]
+    if (!options.regex) args.push('--fixed-strings')
+    if (options.hidden) args.push('--hidden', '--glob', '!.git')
+    // Later globs take precedence, so excludes win over includes
+    for (const glob of options.include || []) args.push('--glob', glob)
+    for (const glob of options.exclude || []) args.push('--glob', `!${glob}`)
+    args.push('--regexp', options.pattern, '--', run.info.root)
+
+    const child = spawn('rg', args, { stdio: ['ignore', 'pipe', 'pipe'] })
+    run.child = child
+
+    let buffered = ''
+    let stderr = ''
+    let searchedFiles = 0
+
+    const handleLine = (line: string) => {
+      if (!line || run.stopped) return
+      let message: RipgrepMessage
+      try {
+        message = JSON.parse(line)
+      } catch {
+        return
+      }
+      if (message.type === 'begin') {
+        searchedFiles++
+        return
+      }
+      if (message.type !== 'match') return
+
+      const filePath = decodeField(message.data.path)
+      const text = decodeField(message.data.lines)
+      if (!filePath || !text || !message.data.line_number) return
+      const ranges: [number, number][] = (message.data.submatches || [])
+        .map(({ start, end }) => [byteToIndex(text, start), byteToIndex(text, end)])
+      if (ranges.length === 0) return
+
+      if (!run.add(filePath.toString('utf8'), message.data.line_number, text.toString('utf8'), ranges)) {
+        child.kill()
+      }
+    }
+
+    child.stdout!.setEncoding('utf8')
+    child.stdout!.on('data', (data: string) => {
+      buffered += data
+      const lines = buffered.split('\n')
+      buffered = lines.pop()!
+      for (const line of lines) handleLine(line)
+    })
+    child.stderr!.setEncoding('utf8')
+    child.stderr!.on('data', (data: string) => {
+      if (stderr.length < 4096) stderr += data
+    })
+
+    let finished = false
+    const finish = (error?: string) => {
+      if (finished) return
+      finished = true
+      run.child = null
+      done(error)
+    }
+
+    child.on('error', (err) => finish(err.message))
+    child.on('close', (code) => {
+      handleLine(buffered)
+      // Exit code 2 also covers unreadable files; only treat it as a failure when nothing was searched
+      if (code === 2 && searchedFiles === 0 && run.results === 0 && !run.stopped) {
+        finish(stderr.trim() || 'ripgrep failed')
+      } else {
+        finish()
+      }
+    })
+  }
+
+  /**
+   * Search without ripgrep: walk the tree and scan each text file.
+   * Matching runs in a worker, so a runaway pattern fails the search instead of blocking the agent.
+   */
+  private async runNode(run: SearchRun, options: FileSearchOptions, matcher: PatternMatcher): Promise<void> {
+    try {
+      await this.scanFiles(run, options, matcher)
+    } finally {
+      matcher.close()
+    }
+  }
+
+  private async scanFiles(run: SearchRun, options: FileSearchOptions, matcher: PatternMatcher): Promise<void> {
+    const include = (options.include || []).map(compileGlob)
+
+    for await (const filePath of walkFiles(run.info.root, {
+      hidden: options.hidden,
+      exclude: options.exclude,
+      shouldStop: () => run.stopped,
+    })) {
+      if (run.stopped) return
+      const relativePath = path.relative(run.info.root, filePath).split(path.sep).join('/')
+      if (include.length > 0 && !include.some(pattern => matchGlob(pattern, relativePath, false))) continue
+
+      let content: Buffer
+      try {
+        const stats = await fsp.stat(filePath)
+        if (stats.size > MAX_FILE_SIZE) continue
+        content = await fsp.readFile(filePath)
+      } catch {
+        continue
+      }
+      if (content.subarray(0, BINARY_SNIFF_BYTES).includes(0)) continue
+
+      const lines = content.toString('utf8').split('\n')
+      // One more than is still wanted, so reaching the cap marks the search truncated
+      const { matches } = await matcher.match(lines, run.maxResults - run.results + 1)
+      for (const { index, ranges } of matches) {
+        if (!run.add(filePath, index + 1, lines[index], ranges)) return
+      }
+    }
+  }
+}
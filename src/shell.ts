@@ -0,0 +1,291 @@
+/**
+ * CloudForge Agent Shell Integration
+ * Injects prompt/command markers into bash, zsh and fish, and parses the
+ * resulting OSC 133 (command boundaries) and OSC 7 (cwd) sequences
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import * as os from 'os'
+import { OscScanner } from './osc.js'
+
+// Integration scripts are written to ~/.cloudforge/shell-integration
+const INTEGRATION_DIR = path.join(os.homedir(), '.cloudforge', 'shell-integration')
+
+// Each script wraps OSC sequences for tmux passthrough when running inside tmux
+const BASH_SCRIPT = `# CloudForge shell integration for bash (loaded via --rcfile)
+if [ -n "$CLOUDFORGE_BASH_LOGIN" ]; then
+  # Login shells ignore --rcfile, so we run as an interactive shell and read the login files ourselves
+  unset CLOUDFORGE_BASH_LOGIN
+  if [ -f /etc/profile ]; then . /etc/profile; fi
+  if [ -f ~/.bash_profile ]; then . ~/.bash_profile
+  elif [ -f ~/.bash_login ]; then . ~/.bash_login
+  elif [ -f ~/.profile ]; then . ~/.profile
+  fi
+elif [ -f ~/.bashrc ]; then
+  . ~/.bashrc
+fi
+
+if [ -z "$__cf_integration" ]; then
+  __cf_integration=1
+
+  __cf_osc() {
+    if [ -n "$TMUX" ]; then
+      printf '\\ePtmux;\\e\\e]%s\\a\\e\\\\' "$1"
+    else
+      printf '\\e]%s\\a' "$1"
+    fi
+  }
+
+  __cf_urlencode() {
+    local LC_ALL=C s="$1" out= c i
+    for (( i = 0; i < \${#s}; i++ )); do
+      c=\${s:i:1}
+      case "$c" in
+        [a-zA-Z0-9./_~-]) out+=$c ;;
+        *) printf -v c '%%%02X' "'$c"; out+=$c ;;
+      esac
+    done
+    printf '%s' "$out"
+  }
+
+  __cf_preexec() {
+    local cmd
+    cmd=$(HISTTIMEFORMAT= builtin history 1 2>/dev/null)
+    cmd=\${cmd#*[0-9]  }
+    __cf_osc "133;C;cmdline_url=$(__cf_urlencode "$cmd")"
+  }
+
+  __cf_precmd() {
+    local ret=$?
+    __cf_osc "133;D;$ret"
+    __cf_osc "7;file://\${HOSTNAME}$(__cf_urlencode "$PWD")"
+    __cf_osc "133;A"
+    return $ret
+  }
+
+  PS0='$(__cf_preexec)'"\${PS0}"
+  PROMPT_COMMAND="__cf_precmd\${PROMPT_COMMAND:+;$PROMPT_COMMAND}"
+fi
+`
+
+const ZSH_HOOKS = `
+__cf_osc() {
+  if [[ -n "$TMUX" ]]; then
+    print -rn -- $'\\ePtmux;\\e\\e]'"$1"$'\\a\\e\\\\'
+  else
+    print -rn -- $'\\e]'"$1"$'\\a'
+  fi
+}
+
+__cf_urlencode() {
+  emulate -L zsh
+  local LC_ALL=C s=$1 out= c i
+  for (( i = 1; i <= \${#s}; i++ )); do
+    c=\${s[i]}
+    if [[ $c == [a-zA-Z0-9./_~-] ]]; then
+      out+=$c
+    else
+      out+=$(printf '%%%02X' "'$c")
+    fi
+  done
+  print -rn -- $out
+}
+
+__cf_preexec() {
+  __cf_osc "133;C;cmdline_url=$(__cf_urlencode "$1")"
+}
+
+__cf_precmd() {
+  local ret=$?
+  __cf_osc "133;D;$ret"
+  __cf_osc "7;file://\${HOST}$(__cf_urlencode "$PWD")"
+  __cf_osc "133;A"
+  return $ret
+}
+
+# Run first so $? is still the command's exit status
+precmd_functions=(__cf_precmd $precmd_functions)
+preexec_functions+=(__cf_preexec)
+`
+
+// zsh reads startup files from $ZDOTDIR; ours wrap the user's and then hand $ZDOTDIR back
+const ZSH_FILES: Record<string, string> = {
+  '.zshenv': `# CloudForge shell integration for zsh
+__cf_zdotdir=$ZDOTDIR
+ZDOTDIR=\${CLOUDFORGE_USER_ZDOTDIR:-$HOME}
+[[ -f $ZDOTDIR/.zshenv ]] && source $ZDOTDIR/.zshenv
+CLOUDFORGE_USER_ZDOTDIR=$ZDOTDIR
+ZDOTDIR=$__cf_zdotdir
+`,
+  '.zprofile': `[[ -f $CLOUDFORGE_USER_ZDOTDIR/.zprofile ]] && source $CLOUDFORGE_USER_ZDOTDIR/.zprofile
+`,
+  '.zshrc': `ZDOTDIR=$CLOUDFORGE_USER_ZDOTDIR
+unset CLOUDFORGE_USER_ZDOTDIR __cf_zdotdir
+[[ -f $ZDOTDIR/.zshrc ]] && source $ZDOTDIR/.zshrc
+[[ $ZDOTDIR == $HOME ]] && unset ZDOTDIR
+${ZSH_HOOKS}`,
+}
+
+const FISH_SCRIPT = `# CloudForge shell integration for fish
+function __cf_osc
+    if set -q TMUX
+        # fish single quotes turn \\\\ into one backslash, so double it for printf
+        printf '\\ePtmux;\\e\\e]%s\\a\\e\\\\\\\\' $argv[1]
+    else
+        printf '\\e]%s\\a' $argv[1]
+    end
+end
+
+function __cf_preexec --on-event fish_preexec
+    __cf_osc "133;C;cmdline_url="(string escape --style=url -- $argv[1])
+end
+
+function __cf_postexec --on-event fish_postexec
+    __cf_osc "133;D;$status"
+end
+
+function __cf_prompt --on-event fish_prompt
+    __cf_osc "7;file://"(hostname)(string escape --style=url -- $PWD)
+    __cf_osc "133;A"
+end
+`
+
+/**
+ * Write a file only when its content changed
+ */
+function writeIfChanged(filePath: string, content: string): void {
+  try {
+    if (fs.readFileSync(filePath, 'utf8') === content) return
+  } catch {
+    // Missing, write it
+  }
+  fs.writeFileSync(filePath, content, { mode: 0o644 })
+}
+
+/**
+ * Prepare shell integration for a shell. Returns the extra arguments and
+ * environment to spawn it with, or null if the shell isn't supported.
+ * The arguments already start a login shell when login is set.
+ */
+export function prepareShellIntegration(shell: string, login = false): { args: string[]; env: Record<string, string> } | null {
+  const name = path.basename(shell)
+  fs.mkdirSync(INTEGRATION_DIR, { recursive: true })
+
+  if (name === 'bash') {
+    const rcfile = path.join(INTEGRATION_DIR, 'cloudforge.bash')
+    writeIfChanged(rcfile, BASH_SCRIPT)
+    return { args: ['--rcfile', rcfile], env: login ? { CLOUDFORGE_BASH_LOGIN: '1' } : {} }
+  }
+
+  if (name === 'zsh') {
+    const zdotdir = path.join(INTEGRATION_DIR, 'zsh')
+    fs.mkdirSync(zdotdir, { recursive: true })
+    for (const [file, content] of Object.entries(ZSH_FILES)) {
+      writeIfChanged(path.join(zdotdir, file), content)
+    }
+    return {
+      args: login ? ['-l'] : [],
+      env: {
+        ZDOTDIR: zdotdir,
+        CLOUDFORGE_USER_ZDOTDIR: process.env.ZDOTDIR || os.homedir(),
+      },
+    }
+  }
+
+  if (name === 'fish') {
+    const script = path.join(INTEGRATION_DIR, 'cloudforge.fish')
+    writeIfChanged(script, FISH_SCRIPT)
+    return { args: ['--init-command', `source ${JSON.stringify(script)}`, ...(login ? ['-l'] : [])], env: {} }
+  }
+
+  return null
+}
+
+export type ShellEvent =
+  | { type: 'prompt' }
+  | { type: 'command-start'; command: string; cwd: string | null; startedAt: number }
+  | { type: 'command-end'; command: string; exitCode: number | null; durationMs: number }
+  | { type: 'cwd'; cwd: string }
+
+/**
+ * Incremental parser for shell integration sequences in PTY output.
+ * Handles sequences split across chunks.
+ */
+export class ShellIntegrationParser {
+  private emit: (event: ShellEvent) => void
+  private scanner = new OscScanner((body) => this.handle(body))
+  private current: { command: string; startedAt: number } | null = null
+
+  /** Last cwd reported by the shell */
+  cwd: string | null = null
+
+  constructor(emit: (event: ShellEvent) => void) {
+    this.emit = emit
+  }
+
+  /** Command currently running, if any */
+  get command(): string | null {
+    return this.current?.command ?? null
+  }
+
+  feed(chunk: string): void {
+    this.scanner.feed(chunk)
+  }
+
+  private handle(body: string): void {
+    if (body.startsWith('133;')) {
+      const [marker, ...params] = body.slice(4).split(';')
+      switch (marker) {
+        case 'A':
+          this.emit({ type: 'prompt' })
+          break
+        case 'C': {
+          const cmdline = params.find(p => p.startsWith('cmdline_url='))
+          const command = cmdline ? decode(cmdline.slice('cmdline_url='.length)) : ''
+          this.current = { command, startedAt: Date.now() }
+          this.emit({ type: 'command-start', command, cwd: this.cwd, startedAt: this.current.startedAt })
+          break
+        }
+        case 'D': {
+          // D also arrives before the first prompt and after empty lines; only report real commands
+          if (!this.current) break
+          const exitCode = params[0] !== undefined && params[0] !== '' ? parseInt(params[0], 10) : NaN
+          this.emit({
+            type: 'command-end',
+            command: this.current.command,
+            exitCode: Number.isNaN(exitCode) ? null : exitCode,
+            durationMs: Date.now() - this.current.startedAt,
+          })
+          this.current = null
+          break
+        }
+      }
+      return
+    }
+
+    if (body.startsWith('7;')) {
+      const cwd = parseFileUrl(body.slice(2))
+      if (cwd && cwd !== this.cwd) {
+        this.cwd = cwd
+        this.emit({ type: 'cwd', cwd })
+      }
+    }
+  }
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+/**
+ * Extract the path from an OSC 7 file://host/path URL
+ */
+function parseFileUrl(url: string): string | null {
+  const match = /^file:\/\/[^/]*(\/.*)$/.exec(url)
+  return match ? decode(match[1]) : null
+}
@@ -5,38 +5,100 @@
 
 import pty, { type IPty } from 'node-pty'
 import * as fs from 'fs'
+import { randomUUID } from 'crypto'
 import { exec } from 'child_process'
 import { promisify } from 'util'
 import chalk from 'chalk'
 import type { AgentConfig } from './config.js'
+import { TmuxBackend } from './tmux.js'
+import { SessionRecorder } from './recording.js'
+import { ScreenModel } from './screen.js'
+import { OutputFlow, type FlowStats } from './flow.js'
+import { prepareShellIntegration, ShellIntegrationParser, type ShellEvent } from './shell.js'
+import { toPlainLines, searchLines, readLines, type SearchOptions, type SearchResult, type ReadLinesOptions, type ReadLinesResult } from './scrollback-search.js'
+import { NotificationDetector, type TerminalNotification } from './notify.js'
+import { SecretRedactor } from './redact.js'
+import { ResourceLimiter, type CloseReason } from './limits.js'
+import { procAvailable, readForegroundProcess, type ForegroundProcess, type SessionActivity } from './process.js'
 
 const execAsync = promisify(exec)
 
+// Default scrollback limit per session
+export const DEFAULT_SCROLLBACK_BYTES = 100 * 1024 // 100KB
+
+// Largest scrollback a client may request for one session
+export const MAX_SCROLLBACK_BYTES = 16 * 1024 * 1024 // 16MB
+
 /**
- * Ring buffer for terminal scrollback
+ * Ring buffer for raw terminal output, limited by size in bytes.
+ * Tracks absolute byte offsets into the session's output stream so that
+ * recent output can be replayed from a given offset.
  */
 export class ScrollbackBuffer {
-  private buffer: string[] = []
+  private buffer: Buffer[] = []
   private totalSize = 0
   private maxSize: number
+  private endOffset = 0
 
-  constructor(maxSize = 100 * 1024) { // 100KB default
+  constructor(maxSize = DEFAULT_SCROLLBACK_BYTES) {
     this.maxSize = maxSize
   }
 
   write(data: string): void {
-    this.buffer.push(data)
-    this.totalSize += data.length
+    const chunk = Buffer.from(data, 'utf8')
+    this.buffer.push(chunk)
+    this.totalSize += chunk.length
+    this.endOffset += chunk.length
 
-    // Trim from front if over limit
-    while (this.totalSize > this.maxSize && this.buffer.length > 1) {
-      const removed = this.buffer.shift()!
-      this.totalSize -= removed.length
+    // Trim from front if over limit, cutting into the oldest chunk if needed
+    while (this.totalSize > this.maxSize && this.buffer.length > 0) {
+      const excess = this.totalSize - this.maxSize
+      const first = this.buffer[0]
+      if (first.length <= excess) {
+        this.buffer.shift()
+        this.totalSize -= first.length
+        continue
+      }
+
+      // Don't start in the middle of a UTF-8 sequence
+      let start = excess
+      while (start < first.length && (first[start] & 0xc0) === 0x80) {
+        start++
+      }
+      this.buffer[0] = first.subarray(start)
+      this.totalSize -= start
     }
   }
 
   getContents(): string {
-    return this.buffer.join('')
+    return Buffer.concat(this.buffer).toString('utf8')
+  }
+
+  /**
+   * Output from an absolute offset to the end, or null if that offset
+   * has already been trimmed (or lies in the future)
+   */
+  readFrom(offset: number): string | null {
+    if (offset < this.start || offset > this.endOffset) return null
+    return Buffer.concat(this.buffer).subarray(offset - this.start).toString('utf8')
+  }
+
+  /** Absolute offset of the oldest byte still held */
+  get start(): number {
+    return this.endOffset - this.totalSize
+  }
+
+  /** Absolute offset just past the newest byte (total bytes ever written) */
+  get end(): number {
+    return this.endOffset
+  }
+
+  get size(): number {
+    return this.totalSize
+  }
+
+  get limit(): number {
+    return this.maxSize
   }
 
   clear(): void {
@@ -47,93 +109,532 @@ export class ScrollbackBuffer {
 
 export type SessionState = 'attached' | 'detached'
 
-export interface SessionInfo {
+// Viewer ID used by clients that don't identify themselves
+export const DEFAULT_VIEWER_ID = 'default'
+
+/**
+ * A client attached to a session. Read-only viewers receive output but cannot write input.
+ */
+export interface ViewerInfo {
+  viewerId: string
+  readOnly: boolean
+  cols: number
+  rows: number
+  attachedAt: number
+}
+
+export interface ViewerOptions {
+  readOnly?: boolean
+  flowControl?: boolean
+  cols?: number
+  rows?: number
+}
+
+/**
+ * Where a session's shell runs: inside the agent's PTY, or in tmux (survives agent restarts)
+ */
+export type SessionKind = 'pty' | 'tmux'
+
+/**
+ * User-assigned labels for telling sessions apart in the session list
+ */
+export interface SessionMeta {
+  name: string | null
+  tags: string[]
+  projectPath: string | null
+}
+
+const EMPTY_META: SessionMeta = { name: null, tags: [], projectPath: null }
+
+// Limits on user-supplied metadata
+const MAX_NAME_LENGTH = 128
+const MAX_TAGS = 32
+const MAX_TAG_LENGTH = 64
+
+/**
+ * Apply metadata changes, validating them. Fields left undefined keep their current value.
+ */
+function mergeMeta(current: SessionMeta, changes: Partial<SessionMeta>): SessionMeta {
+  const meta = { ...current }
+
+  if (changes.name !== undefined) {
+    if (changes.name !== null && typeof changes.name !== 'string') {
+      throw new Error('Session name must be a string')
+    }
+    const name = changes.name?.trim() || null
+    if (name && name.length > MAX_NAME_LENGTH) {
+      throw new Error(`Session name is longer than ${MAX_NAME_LENGTH} characters`)
+    }
+    meta.name = name
+  }
+
+  if (changes.tags !== undefined) {
+    if (!Array.isArray(changes.tags) || !changes.tags.every(tag => typeof tag === 'string')) {
+      throw new Error('Session tags must be an array of strings')
+    }
+    const tags = Array.from(new Set(changes.tags.map(tag => tag.trim()).filter(Boolean)))
+    if (tags.length > MAX_TAGS || tags.some(tag => tag.length > MAX_TAG_LENGTH)) {
+      throw new Error(`At most ${MAX_TAGS} tags of up to ${MAX_TAG_LENGTH} characters each`)
+    }
+    meta.tags = tags
+  }
+
+  if (changes.projectPath !== undefined) {
+    if (changes.projectPath !== null && typeof changes.projectPath !== 'string') {
+      throw new Error('Project path must be a string')
+    }
+    meta.projectPath = changes.projectPath || null
+  }
+
+  return meta
+}
+
+export interface SessionInfo extends SessionMeta {
   sessionId: string
   state: SessionState
+  kind: SessionKind
   shell: string
   cols: number
   rows: number
   createdAt: number
   detachedAt: number | null
+  recordingId: string | null
+  viewers: ViewerInfo[]
+  scrollbackBytes: number
+  stats: FlowStats
+  shellIntegration: boolean
+  command: string | null
+  activity: SessionActivity
+  foreground: ForegroundProcess | null
+}
+
+/**
+ * Optional per-session settings for spawn
+ */
+export interface SpawnOptions {
+  record?: boolean
+  viewerId?: string
+  readOnly?: boolean
+  /** Scrollback limit in bytes, capped at MAX_SCROLLBACK_BYTES */
+  scrollbackBytes?: number
+  flowControl?: boolean
+  shellIntegration?: boolean
+  /** Extra environment variables for the shell */
+  env?: Record<string, string>
+  /** Variables removed from the agent's environment in addition to DEFAULT_ENV_DENYLIST */
+  envDenylist?: string[]
+  /** Extra shell arguments */
+  args?: string[]
+  /** Start the shell as a login shell */
+  login?: boolean
+  /** Run this command via the shell instead of an interactive shell; the session ends when it exits */
+  command?: string
+  /** Notify when a command that ran at least this long finishes (0 = off) */
+  longCommandMs?: number
+  name?: string | null
+  tags?: string[]
+  projectPath?: string | null
 }
 
 export interface TerminalSession {
   pty: IPty
   sessionId: string
   state: SessionState
+  kind: SessionKind
   scrollback: ScrollbackBuffer
+  screen: ScreenModel
+  recorder: SessionRecorder | null
+  flow: OutputFlow
+  shellIntegration: ShellIntegrationParser | null
+  command: string | null
+  streamId: string
+  shellPid: number | null
+  foreground: ForegroundProcess | null
+  activity: SessionActivity
   createdAt: number
   detachedAt: number | null
   shell: string
   cols: number
   rows: number
   idleTimeoutMs: number
-  onData: (callback: (data: string) => void) => void
-  onExit: (callback: (exitCode: number) => void) => void
+  longCommandMs: number
+  meta: SessionMeta
+  viewers: Map<string, ViewerInfo>
+  onData: (callback: (data: string, offset: number) => void) => void
+  onExit: (callback: (exitCode: number, reason: CloseReason) => void) => void
+  onShellEvent: (callback: (event: ShellEvent) => void) => void
+  onProcessChange: (callback: (foreground: ForegroundProcess | null, activity: SessionActivity) => void) => void
+  onNotification: (callback: (notification: TerminalNotification) => void) => void
+  updateProcess: (foreground: ForegroundProcess | null) => void
   write: (data: string) => void
   resize: (cols: number, rows: number) => void
-  kill: () => void
-  clearDataCallbacks: () => void
+  kill: (reason?: CloseReason) => void
+  release: () => void
+}
+
+// Agent settings (including the agent token) are always scrubbed from child environments;
+// clients can only add to this list. Entries ending in '*' match by prefix.
+export const DEFAULT_ENV_DENYLIST = ['CLOUDFORGE_*']
+
+function isDenied(name: string, denylist: string[]): boolean {
+  return denylist.some(pattern => pattern.endsWith('*')
+    ? name.startsWith(pattern.slice(0, -1))
+    : name === pattern)
+}
+
+/**
+ * Environment for processes started on behalf of the dashboard (PTYs and exec):
+ * the agent's environment minus DEFAULT_ENV_DENYLIST and any extra denylisted
+ * variables, plus overrides
+ */
+export function buildProcessEnv(
+  overrides: Record<string, string> = {},
+  denylist: string[] = []
+): Record<string, string | undefined> {
+  const env: Record<string, string | undefined> = {
+    ...process.env,
+    LANG: process.env.LANG || 'en_US.UTF-8',
+  }
+  const denied = [...DEFAULT_ENV_DENYLIST, ...denylist]
+  for (const name of Object.keys(env)) {
+    if (isDenied(name, denied)) {
+      delete env[name]
+    }
+  }
+  return { ...env, ...overrides }
 }
 
 export class TerminalManager {
   private sessions = new Map<string, TerminalSession>()
   private config: AgentConfig
+  private tmux: TmuxBackend | null = null
+  private limiter: ResourceLimiter
+  readonly redactor: SecretRedactor
   private idleCheckInterval: ReturnType<typeof setInterval> | null = null
+  private processCheckInterval: ReturnType<typeof setInterval> | null = null
+  private checkingProcesses = false
 
   constructor(config: AgentConfig) {
     this.config = config
+
+    if (config.sessionBackend !== 'pty') {
+      if (TmuxBackend.isAvailable()) {
+        // Sessions get their own overrides and denylist on top of this
+        this.tmux = new TmuxBackend(buildProcessEnv({ TERM: 'xterm-256color' }))
+      } else if (config.sessionBackend === 'tmux') {
+        throw new Error('Session backend "tmux" requested but tmux is not installed.')
+      }
+    }
+
+    this.redactor = new SecretRedactor(config)
+    this.limiter = new ResourceLimiter(config.sessionLimits)
+    if (this.limiter.mode !== 'none') {
+      console.log(chalk.gray(`Session resource limits enforced via ${this.limiter.mode === 'cgroup' ? 'cgroup v2' : 'rlimits'}`))
+      if (this.limiter.mode === 'rlimit' && config.sessionLimits.cpuPercent) {
+        console.log(chalk.yellow('Session CPU limit requires cgroup v2 and will not be enforced'))
+      }
+    }
+
     // Check for idle detached sessions every 60s
     this.idleCheckInterval = setInterval(() => this.cleanupIdleSessions(), 60_000)
+
+    // Track foreground processes every second (Linux /proc only)
+    if (procAvailable) {
+      this.processCheckInterval = setInterval(() => this.checkForegroundProcesses(), 1000)
+    }
   }
 
   /**
    * Spawn a new terminal session
    */
-  spawn(sessionId: string, shell: string, cols: number, rows: number, cwd?: string, idleTimeoutMs?: number): TerminalSession {
+  spawn(sessionId: string, shell: string, cols: number, rows: number, cwd?: string, idleTimeoutMs?: number, options: SpawnOptions = {}): TerminalSession {
     if (this.sessions.has(sessionId)) {
       throw new Error(`Session ${sessionId} already exists`)
     }
 
+    const { maxSessions, maxScrollbackBytes } = this.config
+    if (maxSessions > 0 && this.sessions.size >= maxSessions) {
+      throw new Error(`Session limit reached (${maxSessions} sessions)`)
+    }
+    const meta = mergeMeta(EMPTY_META, { name: options.name, tags: options.tags, projectPath: options.projectPath })
+    if (options.scrollbackBytes !== undefined && !(options.scrollbackBytes >= 1)) {
+      throw new Error('scrollbackBytes must be a positive number')
+    }
+    const scrollbackBytes = Math.min(Math.floor(options.scrollbackBytes ?? DEFAULT_SCROLLBACK_BYTES), MAX_SCROLLBACK_BYTES)
+    // The raw buffer and the screen emulator's scrollback each get scrollbackBytes
+    if (maxScrollbackBytes > 0 && this.scrollbackReserved + 2 * scrollbackBytes > maxScrollbackBytes) {
+      throw new Error(`Scrollback memory limit reached (${Math.round(maxScrollbackBytes / 1024 / 1024)}MB across all sessions)`)
+    }
+
     if (this.config.debug) {
       console.log(chalk.gray(`Spawning terminal: ${sessionId}, shell=${shell}, ${cols}x${rows}`))
     }
 
-    // Spawn PTY process
-    const ptyProcess = pty.spawn(shell, [], {
+    // Optional shell integration: extra shell args/env that load our prompt markers.
+    // Not useful for a direct command, which never shows a prompt.
+    let integration: { args: string[]; env: Record<string, string> } | null = null
+    if (options.shellIntegration && !options.command) {
+      try {
+        integration = prepareShellIntegration(shell, options.login)
+      } catch (err) {
+        console.error(chalk.red('Shell integration setup failed:'), err)
+      }
+    }
+
+    // Integration args already include the login flag; bash needs its long options before -l
+    const args = [
+      ...(integration ? integration.args : options.login ? ['-l'] : []),
+      ...(options.args || []),
+      ...(options.command ? ['-c', options.command] : []),
+    ]
+
+    const env = buildProcessEnv({
+      TERM: 'xterm-256color',
+      COLORTERM: 'truecolor',
+      ...options.env,
+      ...integration?.env,
+    }, options.envDenylist)
+
+    // Resource limits are applied by a wrapper that execs the shell
+    const wrapper = this.limiter.prepare(sessionId)
+
+    let ptyProcess: IPty
+    try {
+      if (this.tmux) {
+        // Shell runs in the tmux server; the PTY is only a client attached to it
+        this.tmux.create(sessionId, {
+          shell,
+          args,
+          wrapper,
+          cols,
+          rows,
+          cwd: cwd || this.config.homeDir,
+          env,
+          idleTimeoutMs: idleTimeoutMs || 0,
+          record: options.record || false,
+          scrollbackBytes,
+          shellIntegration: integration !== null,
+          command: options.command || null,
+          longCommandMs: options.longCommandMs || 0,
+          meta,
+        })
+        try {
+          ptyProcess = this.spawnTmuxClient(sessionId, cols, rows)
+        } catch (err) {
+          this.tmux.kill(sessionId)
+          throw err
+        }
+      } else {
+        const [file, ...wrapperArgs] = wrapper.length > 0 ? [...wrapper, shell] : [shell]
+        ptyProcess = pty.spawn(file, [...wrapperArgs, ...args], {
+          name: 'xterm-256color',
+          cols,
+          rows,
+          cwd: cwd || this.config.homeDir,
+          env,
+        })
+      }
+    } catch (err) {
+      // Remove the cgroup prepare() created; the session never started
+      this.limiter.release(sessionId)
+      throw err
+    }
+
+    const session = this.createSession(sessionId, ptyProcess, {
+      shell,
+      cols,
+      rows,
+      createdAt: Date.now(),
+      idleTimeoutMs: idleTimeoutMs || 0,
+      record: options.record || false,
+      scrollbackBytes,
+      shellIntegration: integration !== null,
+      command: options.command || null,
+      longCommandMs: options.longCommandMs || 0,
+      meta,
+    })
+    const viewerId = options.viewerId || DEFAULT_VIEWER_ID
+    session.viewers.set(viewerId, {
+      viewerId,
+      readOnly: options.readOnly || false,
+      cols,
+      rows,
+      attachedAt: Date.now(),
+    })
+    session.flow.flowControl = options.flowControl || false
+    this.sessions.set(sessionId, session)
+    return session
+  }
+
+  /**
+   * Rediscover sessions left running in tmux by a previous agent process.
+   * Restored sessions start detached with their tmux history as scrollback.
+   */
+  async restore(): Promise<TerminalSession[]> {
+    if (!this.tmux) return []
+
+    const restored: TerminalSession[] = []
+    for (const info of await this.tmux.list()) {
+      if (this.sessions.has(info.sessionId)) continue
+
+      try {
+        const history = await this.tmux.captureHistory(info.sessionId)
+        const ptyProcess = this.spawnTmuxClient(info.sessionId, info.cols, info.rows)
+        const session = this.createSession(info.sessionId, ptyProcess, {
+          shell: info.shell,
+          cols: info.cols,
+          rows: info.rows,
+          createdAt: info.createdAt,
+          idleTimeoutMs: info.idleTimeoutMs,
+          record: info.record,
+          scrollbackBytes: info.scrollbackBytes || DEFAULT_SCROLLBACK_BYTES,
+          shellIntegration: info.shellIntegration,
+          command: info.command,
+          longCommandMs: info.longCommandMs,
+          meta: info.meta,
+        }, history)
+        session.state = 'detached'
+        session.detachedAt = Date.now()
+
+        this.sessions.set(info.sessionId, session)
+        restored.push(session)
+
+        if (this.config.debug) {
+          console.log(chalk.gray(`Restored terminal: ${info.sessionId}`))
+        }
+      } catch (err) {
+        console.error(chalk.red(`Failed to restore terminal ${info.sessionId}:`), err)
+      }
+    }
+    return restored
+  }
+
+  /**
+   * Spawn a PTY running a tmux client attached to a session
+   */
+  private spawnTmuxClient(sessionId: string, cols: number, rows: number): IPty {
+    const { file, args } = this.tmux!.attachCommand(sessionId)
+    return pty.spawn(file, args, {
       name: 'xterm-256color',
       cols,
       rows,
-      cwd: cwd || this.config.homeDir,
-      env: {
-        ...process.env,
+      cwd: this.config.homeDir,
+      env: buildProcessEnv({
         TERM: 'xterm-256color',
-        COLORTERM: 'truecolor',
-        LANG: process.env.LANG || 'en_US.UTF-8',
-      },
+      }),
     })
+  }
+
+  /**
+   * Wire a PTY process into a session object
+   */
+  private createSession(sessionId: string, ptyProcess: IPty, meta: {
+    shell: string
+    cols: number
+    rows: number
+    createdAt: number
+    idleTimeoutMs: number
+    record: boolean
+    scrollbackBytes: number
+    shellIntegration: boolean
+    command: string | null
+    longCommandMs: number
+    meta: SessionMeta
+  }, initialScrollback?: string): TerminalSession {
+    const kind: SessionKind = this.tmux ? 'tmux' : 'pty'
+    const tmux = this.tmux
 
     // Event callbacks
-    const dataCallbacks: ((data: string) => void)[] = []
-    const exitCallbacks: ((exitCode: number) => void)[] = []
-    const scrollback = new ScrollbackBuffer()
+    const dataCallbacks: ((data: string, offset: number) => void)[] = []
+    const exitCallbacks: ((exitCode: number, reason: CloseReason) => void)[] = []
+    const shellEventCallbacks: ((event: ShellEvent) => void)[] = []
+    const processCallbacks: ((foreground: ForegroundProcess | null, activity: SessionActivity) => void)[] = []
+    const notificationCallbacks: ((notification: TerminalNotification) => void)[] = []
+    const scrollback = new ScrollbackBuffer(meta.scrollbackBytes)
+    const screen = new ScreenModel(meta.cols, meta.rows, meta.scrollbackBytes)
+    if (initialScrollback) {
+      const history = this.redactor.redact(initialScrollback)
+      scrollback.write(history)
+      screen.write(history)
+    }
+
+    // Recording is opt-in; a restored session starts a new recording file
+    let recorder: SessionRecorder | null = null
+    if (meta.record) {
+      try {
+        recorder = new SessionRecorder(sessionId, meta)
+      } catch (err) {
+        console.error(chalk.red(`Failed to start recording for ${sessionId}:`), err)
+      }
+    }
+    // Secrets get typed and pasted too; only the recorded copy of input is masked
+    const inputRedaction = recorder ? this.redactor.createStream((data) => recorder?.input(data)) : null
+
+    // Set when the agent lets go of a persistent session on shutdown
+    let released = false
+
+    // Set when the agent ends the session itself
+    let killReason: CloseReason | null = null
+
+    // Bell and desktop notification sequences, reported even while detached
+    const notify = (notification: TerminalNotification) => {
+      for (const callback of notificationCallbacks) {
+        callback(notification)
+      }
+    }
+    const isLongCommand = (durationMs: number) => meta.longCommandMs > 0 && durationMs >= meta.longCommandMs
+    const notifications = new NotificationDetector(notify)
+
+    // Command boundaries and cwd reported by the shell integration scripts
+    const shellIntegration = meta.shellIntegration
+      ? new ShellIntegrationParser((event) => {
+          for (const callback of shellEventCallbacks) {
+            callback(event)
+          }
+          if (event.type === 'command-end' && isLongCommand(event.durationMs)) {
+            notify({ kind: 'command-finished', command: event.command, exitCode: event.exitCode, durationMs: event.durationMs })
+          }
+        })
+      : null
+
+    // Batched output forwarding with optional flow control
+    const flow = new OutputFlow(ptyProcess, (data, offset) => {
+      for (const callback of dataCallbacks) {
+        callback(data, offset)
+      }
+    })
 
     // Handle data from PTY
-    ptyProcess.onData((data) => {
+    // Secrets are masked before output reaches anything else
+    const redaction = this.redactor.createStream((data) => {
       // Always write to scrollback regardless of attached state
       scrollback.write(data)
-      for (const callback of dataCallbacks) {
-        callback(data)
-      }
+      screen.write(data)
+      recorder?.output(data)
+      shellIntegration?.feed(data)
+      notifications.feed(data)
+      // Only forward output while someone is watching
+      if (session.viewers.size === 0) return
+      flow.push(data, scrollback.end)
     })
+    ptyProcess.onData((data) => redaction.write(data))
 
     // Handle PTY exit
     ptyProcess.onExit(({ exitCode }) => {
+      // Deliver the last batch before reporting the exit
+      redaction.flush()
+      inputRedaction?.flush()
+      flow.flush()
+      recorder?.close()
+      screen.dispose()
+      if (released) return
+      const reason = killReason ?? this.limiter.exitReason(sessionId, exitCode) ?? 'exit'
+      this.limiter.release(sessionId)
       if (this.config.debug) {
-        console.log(chalk.gray(`Terminal exited: ${sessionId}, code=${exitCode}`))
+        console.log(chalk.gray(`Terminal exited: ${sessionId}, code=${exitCode}, reason=${reason}`))
       }
       for (const callback of exitCallbacks) {
-        callback(exitCode)
+        callback(exitCode, reason)
       }
     })
 
@@ -142,20 +643,71 @@ export class TerminalManager {
       pty: ptyProcess,
       sessionId,
       state: 'attached',
+      kind,
       scrollback,
-      createdAt: Date.now(),
+      screen,
+      recorder,
+      flow,
+      shellIntegration,
+      command: meta.command,
+      // Offsets are only meaningful within one agent process's output stream
+      streamId: randomUUID(),
+      // For tmux sessions the PTY runs the client; the pane's shell pid is looked up later
+      shellPid: kind === 'pty' ? ptyProcess.pid : null,
+      foreground: null,
+      activity: 'unknown',
+      createdAt: meta.createdAt,
       detachedAt: null,
-      shell,
-      cols,
-      rows,
-      idleTimeoutMs: idleTimeoutMs || 0,
+      shell: meta.shell,
+      cols: meta.cols,
+      rows: meta.rows,
+      idleTimeoutMs: meta.idleTimeoutMs,
+      longCommandMs: meta.longCommandMs,
+      meta: meta.meta,
+      viewers: new Map(),
       onData: (callback) => {
         dataCallbacks.push(callback)
       },
       onExit: (callback) => {
         exitCallbacks.push(callback)
       },
+      onShellEvent: (callback) => {
+        shellEventCallbacks.push(callback)
+      },
+      onProcessChange: (callback) => {
+        processCallbacks.push(callback)
+      },
+      onNotification: (callback) => {
+        notificationCallbacks.push(callback)
+      },
+      updateProcess: (foreground) => {
+        const activity: SessionActivity = foreground === null
+          ? 'unknown'
+          : foreground.pid === session.shellPid ? 'idle' : 'busy'
+        const previous = session.foreground
+        if (
+          activity === session.activity &&
+          foreground?.pid === previous?.pid &&
+          foreground?.argv.join('\0') === previous?.argv.join('\0')
+        ) {
+          return
+        }
+        session.foreground = foreground
+        session.activity = activity
+        for (const callback of processCallbacks) {
+          callback(foreground, activity)
+        }
+        // Without shell integration, a busy -> idle transition is the best sign a command finished
+        if (!shellIntegration && previous && previous.pid !== session.shellPid && activity === 'idle') {
+          const durationMs = Date.now() - previous.startedAt
+          if (isLongCommand(durationMs)) {
+            notify({ kind: 'command-finished', command: previous.argv.join(' ') || previous.name, exitCode: null, durationMs })
+          }
+        }
+      },
       write: (data) => {
+        inputRedaction?.write(data)
+        flow.countInput(data)
         ptyProcess.write(data)
       },
       resize: (cols, rows) => {
@@ -164,54 +716,224 @@ export class TerminalManager {
         }
         session.cols = cols
         session.rows = rows
+        recorder?.resize(cols, rows)
+        screen.resize(cols, rows)
         ptyProcess.resize(cols, rows)
       },
-      kill: () => {
+      kill: (reason = 'killed') => {
         if (this.config.debug) {
-          console.log(chalk.gray(`Terminal kill: ${sessionId}`))
+          console.log(chalk.gray(`Terminal kill: ${sessionId}, reason=${reason}`))
         }
+        killReason = reason
+        tmux?.kill(sessionId)
         ptyProcess.kill()
       },
-      clearDataCallbacks: () => {
-        dataCallbacks.length = 0
+      release: () => {
+        // Only the tmux client dies; the shell keeps running in tmux
+        released = true
+        ptyProcess.kill()
       },
     }
 
-    this.sessions.set(sessionId, session)
     return session
   }
 
   /**
-   * Detach a session (keep PTY alive, stop forwarding output)
+   * Detach a viewer from a session, or every viewer when no viewerId is given.
+   * The PTY stays alive; output stops being forwarded once no viewers remain.
+   * Returns the remaining viewers, or null if the session doesn't exist.
    */
-  detach(sessionId: string): boolean {
+  detach(sessionId: string, viewerId?: string): ViewerInfo[] | null {
     const session = this.sessions.get(sessionId)
-    if (!session) return false
+    if (!session) return null
 
     if (this.config.debug) {
-      console.log(chalk.gray(`Terminal detach: ${sessionId}`))
+      console.log(chalk.gray(`Terminal detach: ${sessionId}, viewer=${viewerId || '*'}`))
+    }
+
+    if (viewerId) {
+      session.viewers.delete(viewerId)
+    } else {
+      session.viewers.clear()
     }
 
-    session.state = 'detached'
-    session.detachedAt = Date.now()
-    session.clearDataCallbacks()
-    return true
+    if (session.viewers.size === 0) {
+      session.state = 'detached'
+      session.detachedAt = Date.now()
+      session.flow.reset()
+    } else {
+      this.negotiateSize(session)
+    }
+    return Array.from(session.viewers.values())
   }
 
   /**
-   * Reattach to a detached session. Returns scrollback contents.
+   * Attach a viewer to a session. Other viewers stay attached.
+   * Returns a screen snapshot at the negotiated size and the current viewer list.
    */
-  reattach(sessionId: string): { scrollback: string } | null {
+  async reattach(sessionId: string, viewerId: string = DEFAULT_VIEWER_ID, options: ViewerOptions = {}): Promise<{
+    scrollback: string
+    offset: number
+    streamId: string
+    cols: number
+    rows: number
+    viewers: ViewerInfo[]
+  } | null> {
     const session = this.sessions.get(sessionId)
     if (!session) return null
 
     if (this.config.debug) {
-      console.log(chalk.gray(`Terminal reattach: ${sessionId}`))
+      console.log(chalk.gray(`Terminal reattach: ${sessionId}, viewer=${viewerId}${options.readOnly ? ' (read-only)' : ''}`))
     }
 
+    session.viewers.set(viewerId, {
+      viewerId,
+      readOnly: options.readOnly || false,
+      cols: options.cols || session.cols,
+      rows: options.rows || session.rows,
+      attachedAt: Date.now(),
+    })
     session.state = 'attached'
     session.detachedAt = null
-    return { scrollback: session.scrollback.getContents() }
+    if (options.flowControl !== undefined) {
+      session.flow.flowControl = options.flowControl
+    }
+    this.negotiateSize(session)
+
+    // The snapshot covers exactly the output written before it was queued;
+    // output arriving while it is serialized continues from this offset
+    const offset = session.scrollback.end
+    const snapshot = await session.screen.snapshot()
+    return {
+      scrollback: snapshot,
+      offset,
+      streamId: session.streamId,
+      cols: session.cols,
+      rows: session.rows,
+      viewers: Array.from(session.viewers.values()),
+    }
+  }
+
+  /**
+   * Check whether a viewer may send input to a session.
+   * Legacy clients without a viewerId write as the default viewer.
+   */
+  canWrite(sessionId: string, viewerId: string = DEFAULT_VIEWER_ID): boolean {
+    const session = this.sessions.get(sessionId)
+    if (!session) return false
+    const viewer = session.viewers.get(viewerId)
+    return viewer !== undefined && !viewer.readOnly
+  }
+
+  /**
+   * Update a session's name, tags or project path. Persistent sessions keep
+   * their metadata across agent restarts.
+   */
+  async updateMeta(sessionId: string, changes: Partial<SessionMeta>): Promise<SessionMeta> {
+    const session = this.sessions.get(sessionId)
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`)
+    }
+
+    const meta = mergeMeta(session.meta, changes)
+    if (session.kind === 'tmux' && this.tmux) {
+      await this.tmux.setMeta(sessionId, meta)
+    }
+    session.meta = meta
+    return meta
+  }
+
+  /**
+   * Search a session's scrollback as plain text. Line numbers count from the
+   * oldest retained output, whose stream offset is returned as startOffset.
+   */
+  async search(sessionId: string, options: SearchOptions): Promise<(SearchResult & { startOffset: number }) | null> {
+    const session = this.sessions.get(sessionId)
+    if (!session) return null
+    // Taken before the search yields, so line numbers stay relative to it
+    const startOffset = session.scrollback.start
+    const lines = toPlainLines(session.scrollback.getContents())
+    return { ...await searchLines(lines, options), startOffset }
+  }
+
+  /**
+   * Read a page of a session's scrollback as plain text lines
+   */
+  readLines(sessionId: string, options: ReadLinesOptions): (ReadLinesResult & { startOffset: number }) | null {
+    const session = this.sessions.get(sessionId)
+    if (!session) return null
+    const lines = toPlainLines(session.scrollback.getContents())
+    return { ...readLines(lines, options), startOffset: session.scrollback.start }
+  }
+
+  /**
+   * Output produced since an offset, for resuming after a connection drop.
+   * Returns null if the viewer is no longer attached, or the offset belongs to
+   * another stream or has left the replay window.
+   */
+  resume(sessionId: string, viewerId: string, streamId: string, offset: number): { data: string; offset: number } | null {
+    const session = this.sessions.get(sessionId)
+    if (!session || !session.viewers.has(viewerId) || session.streamId !== streamId) return null
+
+    const data = session.scrollback.readFrom(offset)
+    if (data === null) return null
+
+    if (this.config.debug) {
+      console.log(chalk.gray(`Terminal resume: ${sessionId}, from=${offset}, bytes=${session.scrollback.end - offset}`))
+    }
+    return { data, offset }
+  }
+
+  /**
+   * Client acknowledged processing output of a session
+   */
+  ack(sessionId: string, bytes: number): void {
+    this.sessions.get(sessionId)?.flow.ack(bytes)
+  }
+
+  /**
+   * Reset flow control on every session, e.g. after losing the connection
+   * (acks for output sent before the drop will never arrive)
+   */
+  resetFlowControl(): void {
+    for (const session of this.sessions.values()) {
+      session.flow.reset()
+    }
+  }
+
+  /**
+   * Record a viewer's viewport and resize the PTY to fit every attached viewer
+   */
+  resizeViewer(sessionId: string, viewerId: string, cols: number, rows: number): void {
+    const session = this.sessions.get(sessionId)
+    if (!session) return
+
+    const viewer = session.viewers.get(viewerId)
+    if (viewer) {
+      viewer.cols = cols
+      viewer.rows = rows
+      this.negotiateSize(session)
+    } else if (session.viewers.size === 0) {
+      session.resize(cols, rows)
+    }
+  }
+
+  /**
+   * Size the PTY to the smallest viewport among attached viewers
+   */
+  private negotiateSize(session: TerminalSession): void {
+    if (session.viewers.size === 0) return
+
+    let cols = Infinity
+    let rows = Infinity
+    for (const viewer of session.viewers.values()) {
+      cols = Math.min(cols, viewer.cols)
+      rows = Math.min(rows, viewer.rows)
+    }
+
+    if (cols !== session.cols || rows !== session.rows) {
+      session.resize(cols, rows)
+    }
   }
 
   /**
@@ -222,17 +944,48 @@ export class TerminalManager {
     for (const session of this.sessions.values()) {
       result.push({
         sessionId: session.sessionId,
+        ...session.meta,
         state: session.state,
+        kind: session.kind,
         shell: session.shell,
         cols: session.cols,
         rows: session.rows,
         createdAt: session.createdAt,
         detachedAt: session.detachedAt,
+        recordingId: session.recorder?.recordingId ?? null,
+        viewers: Array.from(session.viewers.values()),
+        scrollbackBytes: session.scrollback.limit,
+        stats: session.flow.stats,
+        shellIntegration: session.shellIntegration !== null,
+        command: session.command,
+        activity: session.activity,
+        foreground: session.foreground,
       })
     }
     return result
   }
 
+  /**
+   * Refresh each session's foreground process and busy/idle state
+   */
+  private async checkForegroundProcesses(): Promise<void> {
+    // Skip a tick rather than overlap when /proc reads are slow
+    if (this.checkingProcesses) return
+    this.checkingProcesses = true
+
+    try {
+      for (const session of this.sessions.values()) {
+        if (session.shellPid === null && session.kind === 'tmux' && this.tmux) {
+          session.shellPid = await this.tmux.getPanePid(session.sessionId)
+        }
+        if (session.shellPid === null) continue
+        session.updateProcess(await readForegroundProcess(session.shellPid))
+      }
+    } finally {
+      this.checkingProcesses = false
+    }
+  }
+
   /**
    * Cleanup idle detached sessions
    */
@@ -248,7 +1001,7 @@ export class TerminalManager {
         if (this.config.debug) {
           console.log(chalk.gray(`Idle timeout, killing: ${sessionId}`))
         }
-        session.kill()
+        session.kill('idle-timeout')
         this.sessions.delete(sessionId)
       }
     }
@@ -301,6 +1054,24 @@ export class TerminalManager {
     this.sessions.clear()
   }
 
+  /**
+   * Stop all sessions for agent shutdown. Persistent (tmux) sessions are
+   * released rather than killed so a restarted agent can pick them up again.
+   */
+  shutdown(): void {
+    for (const [sessionId, session] of this.sessions) {
+      if (this.config.debug) {
+        console.log(chalk.gray(`${session.kind === 'tmux' ? 'Releasing' : 'Killing'} terminal: ${sessionId}`))
+      }
+      if (session.kind === 'tmux') {
+        session.release()
+      } else {
+        session.kill()
+      }
+    }
+    this.sessions.clear()
+  }
+
   /**
    * Destroy the manager (cleanup interval)
    */
@@ -309,9 +1080,24 @@ export class TerminalManager {
       clearInterval(this.idleCheckInterval)
       this.idleCheckInterval = null
     }
+    if (this.processCheckInterval) {
+      clearInterval(this.processCheckInterval)
+      this.processCheckInterval = null
+    }
     this.killAll()
   }
 
+  /**
+   * Scrollback memory reserved by all sessions, in bytes
+   */
+  private get scrollbackReserved(): number {
+    let total = 0
+    for (const session of this.sessions.values()) {
+      total += session.scrollback.limit + session.screen.limit
+    }
+    return total
+  }
+
   /**
    * Get the number of active sessions
    */
@@ -334,6 +1120,16 @@ export class TerminalManager {
     const session = this.sessions.get(sessionId)
     if (!session) return null
 
+    // Reported by the shell itself when shell integration is active
+    if (session.shellIntegration?.cwd) {
+      return session.shellIntegration.cwd
+    }
+
+    // The PTY only runs a tmux client; ask tmux for the pane's cwd
+    if (session.kind === 'tmux' && this.tmux) {
+      return this.tmux.getCwd(sessionId)
+    }
+
     const pid = session.pty.pid
     try {
       // Linux: read /proc/<pid>/cwd symlink (check child processes first)
@@ -0,0 +1,171 @@
+/**
+ * CloudForge Agent Text Encoding
+ * Tells text from binary by content, and detects the encoding, byte order
+ * mark and line endings of text files so they can be saved the same way
+ */
+
+// Bytes inspected for NULs, control characters and UTF-16 patterns
+const SNIFF_BYTES = 8192
+
+// More control characters than this (as a share of the sample) means binary
+const MAX_CONTROL_RATIO = 0.1
+
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf])
+const UTF16LE_BOM = Buffer.from([0xff, 0xfe])
+const UTF16BE_BOM = Buffer.from([0xfe, 0xff])
+
+export type TextEncoding = 'utf8' | 'utf16le' | 'utf16be' | 'latin1'
+export type LineEnding = 'lf' | 'crlf'
+
+export interface TextFormat {
+  encoding: TextEncoding
+  bom: boolean
+  /**
+   * Line ending style, or null when there are no line breaks, they are mixed,
+   * or only the start of the file was seen. Saving with null keeps endings as they are.
+   */
+  lineEnding: LineEnding | null
+}
+
+const BOMS: Record<TextEncoding, Buffer | null> = {
+  utf8: UTF8_BOM,
+  utf16le: UTF16LE_BOM,
+  utf16be: UTF16BE_BOM,
+  latin1: null,
+}
+
+/**
+ * Guess UTF-16 without a BOM: mostly-ASCII text has a zero in every other byte
+ */
+function sniffUtf16(sample: Buffer): 'utf16le' | 'utf16be' | null {
+  const pairs = Math.floor(sample.length / 2)
+  if (pairs < 2) return null
+  let evenZeros = 0
+  let oddZeros = 0
+  for (let i = 0; i < pairs * 2; i += 2) {
+    if (sample[i] === 0) evenZeros++
+    if (sample[i + 1] === 0) oddZeros++
+  }
+  if (oddZeros > pairs * 0.4 && evenZeros < pairs * 0.05) return 'utf16le'
+  if (evenZeros > pairs * 0.4 && oddZeros < pairs * 0.05) return 'utf16be'
+  return null
+}
+
+function isValidUtf8(buffer: Buffer, complete: boolean): boolean {
+  try {
+    // When only the start of a file is given, a character cut off at the end is fine
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer, { stream: !complete })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function detectLineEnding(text: string): LineEnding | null {
+  let crlf = 0
+  let lf = 0
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+    if (i > 0 && text[i - 1] === '\r') crlf++
+    else lf++
+  }
+  // Mixed files are left alone rather than normalised to the majority
+  if (crlf > 0 && lf > 0) return null
+  if (crlf > 0) return 'crlf'
+  return lf > 0 ? 'lf' : null
+}
+
+function swapBytes(buffer: Buffer): Buffer {
+  const copy = Buffer.from(buffer.subarray(0, buffer.length - (buffer.length % 2)))
+  return copy.swap16()
+}
+
+/**
+ * Decode text in a known encoding, without its BOM
+ */
+export function decodeText(buffer: Buffer, format: Pick<TextFormat, 'encoding' | 'bom'>): string {
+  const bom = format.bom ? BOMS[format.encoding] : null
+  const body = bom && buffer.subarray(0, bom.length).equals(bom) ? buffer.subarray(bom.length) : buffer
+  switch (format.encoding) {
+    case 'utf16le':
+      return body.toString('utf16le')
+    case 'utf16be':
+      return swapBytes(body).toString('utf16le')
+    case 'latin1':
+      return body.toString('latin1')
+    default:
+      return body.toString('utf8')
+  }
+}
+
+/**
+ * Work out how a file is encoded. Returns null for binary content.
+ * Pass complete = false when buffer is only the start of the file.
+ */
+export function detectTextFormat(buffer: Buffer, complete = true): TextFormat | null {
+  let encoding: TextEncoding | null = null
+  let bom = false
+  if (buffer.subarray(0, 3).equals(UTF8_BOM)) {
+    encoding = 'utf8'
+    bom = true
+  } else if (buffer.subarray(0, 2).equals(UTF16LE_BOM)) {
+    encoding = 'utf16le'
+    bom = true
+  } else if (buffer.subarray(0, 2).equals(UTF16BE_BOM)) {
+    encoding = 'utf16be'
+    bom = true
+  }
+
+  const sample = buffer.subarray(0, SNIFF_BYTES)
+  if (!encoding) {
+    encoding = sniffUtf16(sample)
+  }
+
+  if (!encoding) {
+    let control = 0
+    for (const byte of sample) {
+      if (byte === 0) return null
+      // Tab, line feed, vertical tab, form feed, carriage return and escape are normal in text
+      if ((byte < 0x20 && (byte < 0x09 || byte > 0x0d) && byte !== 0x1b) || byte === 0x7f) control++
+    }
+    if (control > sample.length * MAX_CONTROL_RATIO) return null
+    encoding = isValidUtf8(buffer, complete) ? 'utf8' : 'latin1'
+  }
+
+  // One style across the whole file, so a partial buffer can't tell
+  const lineEnding = complete ? detectLineEnding(decodeText(buffer, { encoding, bom })) : null
+  return { encoding, bom, lineEnding }
+}
+
+/**
+ * Encode text for saving: convert line endings (when lineEnding is set),
+ * encode, and prepend the BOM if wanted
+ */
+export function encodeText(text: string, format: TextFormat): Buffer {
+  let content = text
+  if (format.lineEnding === 'crlf') {
+    content = content.replace(/\r?\n/g, '\r\n')
+  } else if (format.lineEnding === 'lf') {
+    content = content.replace(/\r\n/g, '\n')
+  }
+
+  let body: Buffer
+  switch (format.encoding) {
+    case 'utf16le':
+      body = Buffer.from(content, 'utf16le')
+      break
+    case 'utf16be':
+      body = Buffer.from(content, 'utf16le').swap16()
+      break
+    case 'latin1':
+      if (/[^\x00-\xff]/.test(content)) {
+        throw new Error('Content has characters that cannot be saved as latin1; pass textEncoding "utf8" to convert the file')
+      }
+      body = Buffer.from(content, 'latin1')
+      break
+    default:
+      body = Buffer.from(content, 'utf8')
+  }
+
+  const bom = format.bom ? BOMS[format.encoding] : null
+  return bom ? Buffer.concat([bom, body]) : body
+}
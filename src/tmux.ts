@@ -0,0 +1,336 @@
+/**
+ * CloudForge Agent tmux Backend
+ * Runs terminal sessions inside a dedicated tmux server so they outlive the agent process
+ */
+
+import { execFile, execFileSync } from 'child_process'
+import { randomBytes } from 'crypto'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { promisify } from 'util'
+import type { SessionMeta } from './terminal.js'
+
+const execFileAsync = promisify(execFile)
+
+// Dedicated tmux socket name, keeps agent sessions apart from the user's own tmux
+const TMUX_SOCKET = 'cloudforge'
+
+// Prefix for tmux session names (tmux rejects '.' and ':' in names)
+const SESSION_PREFIX = 'cf-'
+
+// Lines of history kept by tmux for each pane
+const HISTORY_LIMIT = 10000
+
+// Sources the session's env file, deletes it and execs the rest of argv.
+// The environment travels in a file so it never shows up in ps or /proc/*/cmdline.
+const ENV_LOADER = ['/bin/sh', '-c', '. "$1"; rm -f -- "$1"; shift; exec "$@"', 'cloudforge-env']
+
+// Set by tmux for each pane; a session's env must not override them
+const TMUX_MANAGED_ENV = new Set(['TERM', 'TMUX', 'TMUX_PANE'])
+
+export interface TmuxSessionInfo {
+  sessionId: string
+  shell: string
+  cols: number
+  rows: number
+  createdAt: number
+  idleTimeoutMs: number
+  record: boolean
+  scrollbackBytes: number
+  shellIntegration: boolean
+  command: string | null
+  longCommandMs: number
+  meta: SessionMeta
+}
+
+export class TmuxBackend {
+  private serverEnv: Record<string, string>
+
+  /**
+   * The tmux server keeps the environment it was started with as the base for
+   * every pane, so serverEnv must not carry any single session's overrides
+   */
+  constructor(serverEnv: Record<string, string | undefined>) {
+    this.serverEnv = definedEnv(serverEnv)
+  }
+
+  /**
+   * Check if tmux is installed
+   */
+  static isAvailable(): boolean {
+    try {
+      execFileSync('tmux', ['-V'], { stdio: 'ignore', timeout: 3000 })
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Map a CloudForge session ID to a tmux session name
+   */
+  private sessionName(sessionId: string): string {
+    return SESSION_PREFIX + sessionId.replace(/[^A-Za-z0-9_-]/g, '_')
+  }
+
+  /**
+   * Base tmux arguments: dedicated socket and no user config,
+   * so user key bindings (prefix keys etc.) never swallow terminal input
+   */
+  private baseArgs(): string[] {
+    return ['-L', TMUX_SOCKET, '-f', '/dev/null']
+  }
+
+  /**
+   * Create a detached tmux session running the given shell
+   */
+  create(sessionId: string, options: {
+    shell: string
+    args: string[]
+    /** argv prefix that execs the shell, e.g. to apply resource limits */
+    wrapper: string[]
+    cols: number
+    rows: number
+    cwd: string
+    env: Record<string, string | undefined>
+    idleTimeoutMs: number
+    record: boolean
+    scrollbackBytes: number
+    shellIntegration: boolean
+    command: string | null
+    longCommandMs: number
+    meta: SessionMeta
+  }): void {
+    const name = this.sessionName(sessionId)
+    const envFile = writeEnvFile(definedEnv(options.env), this.serverEnv)
+
+    try {
+      execFileSync('tmux', [
+        ...this.baseArgs(),
+        // history-limit only applies to panes created after it is set
+        'start-server',
+        ';', 'set-option', '-g', 'history-limit', String(HISTORY_LIMIT),
+        ';', 'new-session', '-d',
+        '-s', name,
+        '-x', String(options.cols),
+        '-y', String(options.rows),
+        '-c', options.cwd,
+        ...ENV_LOADER,
+        envFile,
+        ...options.wrapper,
+        options.shell,
+        ...options.args,
+        ';', 'set-option', '-g', 'status', 'off',
+        ';', 'set-option', '-g', 'prefix', 'None',
+        ';', 'set-option', '-g', 'prefix2', 'None',
+        ';', 'set-option', '-g', 'escape-time', '0',
+        ';', 'set-option', '-t', name, '@cf_session_id', sessionId,
+        ';', 'set-option', '-t', name, '@cf_shell', options.shell,
+        ';', 'set-option', '-t', name, '@cf_idle_timeout', String(options.idleTimeoutMs),
+        ';', 'set-option', '-t', name, '@cf_record', options.record ? '1' : '0',
+        ';', 'set-option', '-t', name, '@cf_scrollback_bytes', String(options.scrollbackBytes),
+        ';', 'set-option', '-t', name, '@cf_shell_integration', options.shellIntegration ? '1' : '0',
+        // URL-encoded so tabs and newlines can't break the list-sessions format
+        ';', 'set-option', '-t', name, '@cf_command', encodeURIComponent(options.command || ''),
+        ';', 'set-option', '-t', name, '@cf_long_command', String(options.longCommandMs),
+        ';', 'set-option', '-t', name, '@cf_meta', encodeMeta(options.meta),
+      ], { env: this.serverEnv, stdio: 'ignore', timeout: 5000 })
+    } catch (err) {
+      // The loader never ran, so the env file is still there
+      fs.rmSync(envFile, { force: true })
+      throw err
+    }
+
+    // Let shell integration sequences through to our client (tmux 3.3+, best effort)
+    if (options.shellIntegration) {
+      try {
+        execFileSync('tmux', [...this.baseArgs(), 'set-option', '-g', 'allow-passthrough', 'on'], { stdio: 'ignore', timeout: 3000 })
+      } catch {
+        // Older tmux; command markers won't reach the agent
+      }
+    }
+  }
+
+  /**
+   * Command and arguments for a PTY client attached to a session
+   */
+  attachCommand(sessionId: string): { file: string; args: string[] } {
+    return {
+      file: 'tmux',
+      args: [...this.baseArgs(), 'attach-session', '-t', this.sessionName(sessionId)],
+    }
+  }
+
+  /**
+   * List CloudForge sessions living in the tmux server
+   */
+  async list(): Promise<TmuxSessionInfo[]> {
+    const format = [
+      '#{session_name}',
+      '#{@cf_session_id}',
+      '#{@cf_shell}',
+      '#{window_width}',
+      '#{window_height}',
+      '#{session_created}',
+      '#{@cf_idle_timeout}',
+      '#{@cf_record}',
+      '#{@cf_scrollback_bytes}',
+      '#{@cf_shell_integration}',
+      '#{@cf_command}',
+      '#{@cf_long_command}',
+      '#{@cf_meta}',
+    ].join('\t')
+
+    let stdout: string
+    try {
+      ({ stdout } = await execFileAsync('tmux', [...this.baseArgs(), 'list-sessions', '-F', format], { timeout: 5000 }))
+    } catch {
+      // No tmux server running, so no sessions
+      return []
+    }
+
+    const sessions: TmuxSessionInfo[] = []
+    for (const line of stdout.split('\n').filter(Boolean)) {
+      const [name, sessionId, shell, cols, rows, created, idleTimeout, record, scrollbackBytes, shellIntegration, command, longCommand, meta] = line.split('\t')
+      if (!name.startsWith(SESSION_PREFIX) || !sessionId) continue
+      sessions.push({
+        sessionId,
+        shell,
+        cols: parseInt(cols, 10) || 80,
+        rows: parseInt(rows, 10) || 24,
+        createdAt: (parseInt(created, 10) || 0) * 1000,
+        idleTimeoutMs: parseInt(idleTimeout, 10) || 0,
+        record: record === '1',
+        scrollbackBytes: parseInt(scrollbackBytes, 10) || 0,
+        shellIntegration: shellIntegration === '1',
+        command: command ? decodeURIComponent(command) : null,
+        longCommandMs: parseInt(longCommand, 10) || 0,
+        meta: decodeMeta(meta),
+      })
+    }
+    return sessions
+  }
+
+  /**
+   * Capture the pane history (excluding the visible screen) with escape sequences
+   */
+  async captureHistory(sessionId: string): Promise<string> {
+    try {
+      // capture-pane clamps an empty history range to the first visible line
+      const { stdout: historySize } = await execFileAsync('tmux', [
+        ...this.baseArgs(),
+        'display-message', '-p', '-t', this.sessionName(sessionId), '#{history_size}',
+      ], { timeout: 3000 })
+      if (parseInt(historySize, 10) === 0) return ''
+
+      const { stdout } = await execFileAsync('tmux', [
+        ...this.baseArgs(),
+        'capture-pane', '-p', '-e', '-J',
+        '-S', '-', '-E', '-1',
+        '-t', this.sessionName(sessionId),
+      ], { timeout: 5000, maxBuffer: 10 * 1024 * 1024 })
+      return stdout.replace(/\n/g, '\r\n')
+    } catch {
+      return ''
+    }
+  }
+
+  /**
+   * Get the current working directory of the session's active pane
+   */
+  async getCwd(sessionId: string): Promise<string | null> {
+    try {
+      const { stdout } = await execFileAsync('tmux', [
+        ...this.baseArgs(),
+        'display-message', '-p', '-t', this.sessionName(sessionId), '#{pane_current_path}',
+      ], { timeout: 3000 })
+      return stdout.trim() || null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Get the pid of the shell running in the session's active pane
+   */
+  async getPanePid(sessionId: string): Promise<number | null> {
+    try {
+      const { stdout } = await execFileAsync('tmux', [
+        ...this.baseArgs(),
+        'display-message', '-p', '-t', this.sessionName(sessionId), '#{pane_pid}',
+      ], { timeout: 3000 })
+      return parseInt(stdout.trim(), 10) || null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Store a session's user-assigned metadata with the session
+   */
+  async setMeta(sessionId: string, meta: SessionMeta): Promise<void> {
+    await execFileAsync('tmux', [
+      ...this.baseArgs(),
+      'set-option', '-t', this.sessionName(sessionId), '@cf_meta', encodeMeta(meta),
+    ], { timeout: 3000 })
+  }
+
+  /**
+   * Kill a tmux session and everything running in it
+   */
+  kill(sessionId: string): void {
+    execFile('tmux', [...this.baseArgs(), 'kill-session', '-t', this.sessionName(sessionId)], () => {
+      // Session may already be gone
+    })
+  }
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+function definedEnv(env: Record<string, string | undefined>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(env).filter((entry): entry is [string, string] => entry[1] !== undefined)
+  )
+}
+
+/**
+ * Write the changes from the server's environment to a session's as a shell
+ * script only the agent's user can read. The shell's loader deletes it as
+ * soon as it has been sourced.
+ */
+function writeEnvFile(env: Record<string, string>, serverEnv: Record<string, string>): string {
+  // Names the shell cannot export are left out
+  const settable = (key: string) => /^[A-Za-z_][A-Za-z0-9_]*$/.test(key) && !TMUX_MANAGED_ENV.has(key)
+  const lines = [
+    ...Object.keys(serverEnv)
+      .filter(key => settable(key) && !(key in env))
+      .map(key => `unset ${key}`),
+    ...Object.entries(env)
+      .filter(([key, value]) => settable(key) && serverEnv[key] !== value)
+      .map(([key, value]) => `export ${key}=${shellQuote(value)}`),
+  ]
+  const file = path.join(os.tmpdir(), `cloudforge-env-${randomBytes(8).toString('hex')}`)
+  fs.writeFileSync(file, lines.join('\n') + '\n', { mode: 0o600, flag: 'wx' })
+  return file
+}
+
+// Metadata is stored as JSON, URL-encoded like @cf_command
+function encodeMeta(meta: SessionMeta): string {
+  return encodeURIComponent(JSON.stringify(meta))
+}
+
+function decodeMeta(value: string | undefined): SessionMeta {
+  try {
+    const meta = JSON.parse(decodeURIComponent(value || ''))
+    return {
+      name: typeof meta.name === 'string' ? meta.name : null,
+      tags: Array.isArray(meta.tags) ? meta.tags.filter((tag: unknown) => typeof tag === 'string') : [],
+      projectPath: typeof meta.projectPath === 'string' ? meta.projectPath : null,
+    }
+  } catch {
+    return { name: null, tags: [], projectPath: null }
+  }
+}
@@ -0,0 +1,399 @@
+/**
+ * CloudForge Agent File Transfers
+ * Moves large files in fixed-size chunks, with resume after reconnect
+ * and a SHA-256 check at the end
+ */
+
+import * as fs from 'fs'
+import * as fsp from 'fs/promises'
+import * as path from 'path'
+import { createHash, randomUUID } from 'crypto'
+import chalk from 'chalk'
+import type { AgentConfig } from './config.js'
+import type { FileManager } from './files.js'
+
+// Default and maximum chunk size; base64 chunks must stay under socket.io's 1MB message limit
+const DEFAULT_CHUNK_SIZE = 256 * 1024
+const MAX_CHUNK_SIZE = 512 * 1024
+
+// Transfers without activity for this long are dropped, along with partial uploads
+const TRANSFER_TTL_MS = 24 * 60 * 60 * 1000
+
+// Partial uploads sit next to their target as .<name>.<transferId>.cfpart
+const PART_SUFFIX = '.cfpart'
+
+export type TransferDirection = 'upload' | 'download'
+
+export interface TransferInfo {
+  transferId: string
+  direction: TransferDirection
+  path: string
+  size: number
+  /** Offset to continue from (bytes already received, for a resumed upload) */
+  offset: number
+  chunkSize: number
+}
+
+export interface TransferChunk {
+  transferId: string
+  offset: number
+  bytesRead: number
+  size: number
+  content: string
+  encoding: 'base64'
+  eof: boolean
+}
+
+export interface TransferResult {
+  transferId: string
+  path: string
+  size: number
+  sha256: string
+}
+
+export interface TransferProgress {
+  transferId: string
+  direction: TransferDirection
+  path: string
+  bytesTransferred: number
+  totalBytes: number
+}
+
+interface Transfer {
+  transferId: string
+  direction: TransferDirection
+  path: string
+  partPath: string | null
+  size: number
+  mtimeMs: number
+  offset: number
+  updatedAt: number
+  /** Upload chunk being written; offset only moves past it once it is on disk */
+  writing: Promise<void> | null
+}
+
+/**
+ * SHA-256 of a file, streamed
+ */
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256')
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')))
+  })
+}
+
+async function writeAt(filePath: string, data: Buffer, offset: number): Promise<void> {
+  const handle = await fsp.open(filePath, 'r+')
+  try {
+    await handle.write(data, 0, data.length, offset)
+  } finally {
+    await handle.close()
+  }
+}
+
+function validateTransferId(transferId: string): string {
+  if (!/^[A-Za-z0-9_-]{1,64}$/.test(transferId)) {
+    throw new Error(`Invalid transfer ID: ${transferId}`)
+  }
+  return transferId
+}
+
+export class TransferManager {
+  private config: AgentConfig
+  private fileManager: FileManager
+  private transfers = new Map<string, Transfer>()
+  private progressCallbacks: ((progress: TransferProgress) => void)[] = []
+
+  constructor(config: AgentConfig, fileManager: FileManager) {
+    this.config = config
+    this.fileManager = fileManager
+
+    // Drop abandoned transfers every 10 minutes
+    setInterval(() => this.cleanupStale(), 10 * 60_000).unref()
+  }
+
+  /**
+   * Register a listener for progress after each chunk
+   */
+  onProgress(callback: (progress: TransferProgress) => void): void {
+    this.progressCallbacks.push(callback)
+  }
+
+  /**
+   * Start (or restart) a download. The client then pulls chunks by offset,
+   * so resuming after a reconnect is just asking for the next offset again.
+   */
+  async startDownload(filePath: string, transferId: string = randomUUID()): Promise<TransferInfo> {
+    validateTransferId(transferId)
+    const resolvedPath = this.fileManager.resolvePath(filePath)
+
+    if (this.config.debug) {
+      console.log(chalk.gray(`Transfer download start: ${transferId}, ${resolvedPath}`))
+    }
+
+    const stats = await fsp.stat(resolvedPath)
+    if (!stats.isFile()) {
+      throw new Error(`Not a file: ${resolvedPath}`)
+    }
+
+    this.transfers.set(transferId, {
+      transferId,
+      direction: 'download',
+      path: resolvedPath,
+      partPath: null,
+      size: stats.size,
+      mtimeMs: stats.mtimeMs,
+      offset: 0,
+      updatedAt: Date.now(),
+      writing: null,
+    })
+
+    return {
+      transferId,
+      direction: 'download',
+      path: resolvedPath,
+      size: stats.size,
+      offset: 0,
+      chunkSize: DEFAULT_CHUNK_SIZE,
+    }
+  }
+
+  /**
+   * Read one chunk of a download
+   */
+  async readChunk(transferId: string, offset: number, length = DEFAULT_CHUNK_SIZE): Promise<TransferChunk> {
+    const transfer = this.getTransfer(transferId, 'download')
+    const chunkSize = Math.min(Math.max(length, 1), MAX_CHUNK_SIZE)
+
+    const handle = await fsp.open(transfer.path, 'r')
+    try {
+      const stats = await handle.stat()
+      // Chunks from different versions of the file would not add up to either
+      if (stats.size !== transfer.size || stats.mtimeMs !== transfer.mtimeMs) {
+        throw new Error('File changed during transfer, start it again')
+      }
+
+      const buffer = Buffer.alloc(Math.min(chunkSize, Math.max(transfer.size - offset, 0)))
+      const { bytesRead } = buffer.length > 0
+        ? await handle.read(buffer, 0, buffer.length, offset)
+        : { bytesRead: 0 }
+
+      transfer.offset = offset + bytesRead
+      transfer.updatedAt = Date.now()
+      this.reportProgress(transfer)
+
+      return {
+        transferId,
+        offset,
+        bytesRead,
+        size: transfer.size,
+        content: buffer.subarray(0, bytesRead).toString('base64'),
+        encoding: 'base64',
+        eof: offset + bytesRead >= transfer.size,
+      }
+    } finally {
+      await handle.close()
+    }
+  }
+
+  /**
+   * Start an upload, or resume one with the same transferId and path.
+   * Returns the offset the client should continue from.
+   */
+  async startUpload(filePath: string, size: number, transferId: string = randomUUID()): Promise<TransferInfo> {
+    validateTransferId(transferId)
+    const resolvedPath = this.fileManager.resolvePath(filePath)
+    if (!Number.isInteger(size) || size < 0) {
+      throw new Error('Upload size must be a non-negative integer')
+    }
+
+    const partPath = path.join(path.dirname(resolvedPath), `.${path.basename(resolvedPath)}.${transferId}${PART_SUFFIX}`)
+    await fsp.mkdir(path.dirname(resolvedPath), { recursive: true })
+
+    // A partial file left by an earlier attempt (possibly before an agent restart) is resumed
+    let offset = 0
+    try {
+      offset = (await fsp.stat(partPath)).size
+    } catch {
+      await fsp.writeFile(partPath, '', { mode: 0o600 })
+    }
+    if (offset > size) {
+      await fsp.truncate(partPath, 0)
+      offset = 0
+    }
+
+    if (this.config.debug) {
+      console.log(chalk.gray(`Transfer upload start: ${transferId}, ${resolvedPath}, size=${size}, offset=${offset}`))
+    }
+
+    this.transfers.set(transferId, {
+      transferId,
+      direction: 'upload',
+      path: resolvedPath,
+      partPath,
+      size,
+      mtimeMs: 0,
+      offset,
+      updatedAt: Date.now(),
+      writing: null,
+    })
+
+    return {
+      transferId,
+      direction: 'upload',
+      path: resolvedPath,
+      size,
+      offset,
+      chunkSize: DEFAULT_CHUNK_SIZE,
+    }
+  }
+
+  /**
+   * Append one chunk to an upload. Chunks must arrive in order; one sent
+   * while the previous is still being written waits for it.
+   */
+  async writeChunk(transferId: string, offset: number, content: string): Promise<{ transferId: string; offset: number }> {
+    let transfer = this.getTransfer(transferId, 'upload')
+    // Checked again after each wait: another chunk may have started writing meanwhile
+    while (transfer.writing) {
+      await transfer.writing.catch(() => {})
+      // Cancelled while waiting
+      transfer = this.getTransfer(transferId, 'upload')
+    }
+    if (offset !== transfer.offset) {
+      throw new Error(`Unexpected offset ${offset}, expected ${transfer.offset}`)
+    }
+
+    const data = Buffer.from(content, 'base64')
+    if (data.length > MAX_CHUNK_SIZE) {
+      throw new Error(`Chunk too large (${data.length} bytes). Maximum size is ${MAX_CHUNK_SIZE} bytes.`)
+    }
+    if (transfer.offset + data.length > transfer.size) {
+      throw new Error(`Chunk runs past the declared size of ${transfer.size} bytes`)
+    }
+
+    // A duplicate of this chunk arriving meanwhile waits, then fails the offset check
+    const writing = writeAt(transfer.partPath!, data, offset)
+    transfer.writing = writing
+    try {
+      await writing
+    } finally {
+      transfer.writing = null
+    }
+
+    transfer.offset = offset + data.length
+    transfer.updatedAt = Date.now()
+    this.reportProgress(transfer)
+    return { transferId, offset: transfer.offset }
+  }
+
+  /**
+   * Finish a transfer. Uploads are checked against the client's SHA-256 and
+   * only then moved into place; downloads return the hash for the client to check.
+   */
+  async finish(transferId: string, sha256?: string): Promise<TransferResult> {
+    const transfer = this.transfers.get(validateTransferId(transferId))
+    if (!transfer) {
+      throw new Error(`Transfer ${transferId} not found`)
+    }
+
+    if (this.config.debug) {
+      console.log(chalk.gray(`Transfer finish: ${transferId}`))
+    }
+
+    if (transfer.direction === 'download') {
+      const hash = await hashFile(transfer.path)
+      this.transfers.delete(transferId)
+      return { transferId, path: transfer.path, size: transfer.size, sha256: hash }
+    }
+
+    if (!sha256) {
+      throw new Error('sha256 is required to finish an upload')
+    }
+    // The last chunk may still be on its way to disk
+    while (transfer.writing) {
+      await transfer.writing.catch(() => {})
+    }
+    if (this.transfers.get(transferId) !== transfer) {
+      throw new Error(`Transfer ${transferId} not found`)
+    }
+    if (transfer.offset !== transfer.size) {
+      throw new Error(`Upload incomplete: ${transfer.offset} of ${transfer.size} bytes received`)
+    }
+
+    const partPath = transfer.partPath!
+    const hash = await hashFile(partPath)
+    if (hash !== sha256.toLowerCase()) {
+      // The data is corrupt; the client has to start over
+      this.transfers.delete(transferId)
+      await fsp.rm(partPath, { force: true })
+      throw new Error(`Checksum mismatch: expected ${sha256}, got ${hash}`)
+    }
+
+    // Keep the mode of a file being replaced
+    try {
+      const existing = await fsp.stat(transfer.path)
+      await fsp.chmod(partPath, existing.mode & 0o7777)
+    } catch {
+      await fsp.chmod(partPath, 0o644)
+    }
+    await fsp.rename(partPath, transfer.path)
+    this.transfers.delete(transferId)
+
+    return { transferId, path: transfer.path, size: transfer.size, sha256: hash }
+  }
+
+  /**
+   * Abandon a transfer, removing any partial upload
+   */
+  async cancel(transferId: string): Promise<boolean> {
+    const transfer = this.transfers.get(transferId)
+    if (!transfer) return false
+
+    if (this.config.debug) {
+      console.log(chalk.gray(`Transfer cancel: ${transferId}`))
+    }
+
+    this.transfers.delete(transferId)
+    if (transfer.partPath) {
+      await fsp.rm(transfer.partPath, { force: true })
+    }
+    return true
+  }
+
+  private getTransfer(transferId: string, direction: TransferDirection): Transfer {
+    const transfer = this.transfers.get(transferId)
+    if (!transfer || transfer.direction !== direction) {
+      throw new Error(`${direction === 'upload' ? 'Upload' : 'Download'} ${transferId} not found`)
+    }
+    return transfer
+  }
+
+  private reportProgress(transfer: Transfer): void {
+    const progress: TransferProgress = {
+      transferId: transfer.transferId,
+      direction: transfer.direction,
+      path: transfer.path,
+      bytesTransferred: transfer.offset,
+      totalBytes: transfer.size,
+    }
+    for (const callback of this.progressCallbacks) {
+      callback(progress)
+    }
+  }
+
+  private cleanupStale(): void {
+    const now = Date.now()
+    for (const transfer of this.transfers.values()) {
+      if (now - transfer.updatedAt > TRANSFER_TTL_MS) {
+        if (this.config.debug) {
+          console.log(chalk.gray(`Transfer expired: ${transfer.transferId}`))
+        }
+        this.cancel(transfer.transferId).catch(() => {})
+      }
+    }
+  }
+}
@@ -0,0 +1,368 @@
+/**
+ * CloudForge Agent File Watcher
+ * Watches directories for changes and reports debounced batches of
+ * create/modify/delete/rename events
+ */
+
+import * as fs from 'fs'
+import * as fsp from 'fs/promises'
+import * as path from 'path'
+import chalk from 'chalk'
+import type { AgentConfig } from './config.js'
+import type { FileManager } from './files.js'
+
+// Changes are collected until things are quiet for this long, but never longer than the max wait
+const DEBOUNCE_MS = 100
+const MAX_WAIT_MS = 1000
+
+// Directory names skipped unless the client passes its own ignore list
+export const DEFAULT_WATCH_IGNORE = ['.git', 'node_modules']
+
+// Limits to stay within inotify watch limits
+const MAX_WATCHES = 64
+const MAX_DIRECTORIES_PER_WATCH = 5000
+
+export interface WatchEvent {
+  type: 'create' | 'modify' | 'delete' | 'rename'
+  path: string
+  /** Previous path, for renames */
+  oldPath?: string
+  kind: 'file' | 'directory'
+}
+
+export interface WatchOptions {
+  recursive?: boolean
+  ignore?: string[]
+}
+
+export interface WatchInfo {
+  watchId: string
+  path: string
+  recursive: boolean
+  directories: number
+  /** Some directories were not watched because of MAX_DIRECTORIES_PER_WATCH */
+  limited: boolean
+}
+
+interface EntryState {
+  ino: number
+  dir: boolean
+  mtimeMs: number
+  size: number
+}
+
+interface Change {
+  path: string
+  state: EntryState
+}
+
+function toState(stats: fs.Stats): EntryState {
+  return { ino: stats.ino, dir: stats.isDirectory(), mtimeMs: stats.mtimeMs, size: stats.size }
+}
+
+/**
+ * One files:watch subscription: an fs.watch per directory plus the last
+ * known state of each entry, so raw notifications can be turned into
+ * meaningful events
+ */
+class DirectoryWatch {
+  readonly root: string
+  readonly recursive: boolean
+  private ignore: Set<string>
+  private emit: (events: WatchEvent[]) => void
+  private watchers = new Map<string, fs.FSWatcher>()
+  private entries = new Map<string, Map<string, EntryState>>()
+  // Directory -> names to check, or null to rescan the whole directory
+  private pending = new Map<string, Set<string> | null>()
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private firstPendingAt = 0
+  private flushing = false
+  private closed = false
+  limited = false
+
+  constructor(root: string, options: WatchOptions, emit: (events: WatchEvent[]) => void) {
+    this.root = root
+    this.recursive = options.recursive || false
+    this.ignore = new Set(options.ignore || DEFAULT_WATCH_IGNORE)
+    this.emit = emit
+  }
+
+  get directories(): number {
+    return this.watchers.size
+  }
+
+  async start(): Promise<void> {
+    const stats = await fsp.stat(this.root)
+    if (!stats.isDirectory()) {
+      throw new Error(`Not a directory: ${this.root}`)
+    }
+    await this.addDirectory(this.root)
+  }
+
+  close(): void {
+    this.closed = true
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    for (const watcher of this.watchers.values()) {
+      watcher.close()
+    }
+    this.watchers.clear()
+    this.entries.clear()
+    this.pending.clear()
+  }
+
+  /**
+   * Start watching a directory and record its entries, descending into
+   * subdirectories when recursive
+   */
+  private async addDirectory(dir: string): Promise<void> {
+    if (this.closed || this.watchers.has(dir)) return
+    if (this.watchers.size >= MAX_DIRECTORIES_PER_WATCH) {
+      this.limited = true
+      return
+    }
+
+    let watcher: fs.FSWatcher
+    try {
+      watcher = fs.watch(dir, { persistent: false }, (_eventType, filename) => {
+        this.queue(dir, filename ? filename.toString() : null)
+      })
+    } catch {
+      // Unreadable, or out of inotify watches
+      return
+    }
+    watcher.on('error', () => this.removeDirectory(dir))
+    this.watchers.set(dir, watcher)
+
+    const known = new Map<string, EntryState>()
+    this.entries.set(dir, known)
+
+    let names: string[] = []
+    try {
+      names = await fsp.readdir(dir)
+    } catch {
+      // Removed meanwhile
+    }
+    for (const name of names) {
+      if (this.ignore.has(name)) continue
+      try {
+        const state = toState(await fsp.lstat(path.join(dir, name)))
+        known.set(name, state)
+        if (state.dir && this.recursive) {
+          await this.addDirectory(path.join(dir, name))
+        }
+      } catch {
+        // Removed meanwhile
+      }
+    }
+  }
+
+  /**
+   * Stop watching a directory and everything below it
+   */
+  private removeDirectory(dir: string): void {
+    for (const [watched, watcher] of this.watchers) {
+      if (watched === dir || watched.startsWith(dir + path.sep)) {
+        watcher.close()
+        this.watchers.delete(watched)
+        this.entries.delete(watched)
+        this.pending.delete(watched)
+      }
+    }
+  }
+
+  private queue(dir: string, name: string | null): void {
+    if (this.closed) return
+    if (name !== null && this.ignore.has(name)) return
+
+    const names = this.pending.get(dir)
+    if (name === null) {
+      this.pending.set(dir, null)
+    } else if (names === undefined) {
+      this.pending.set(dir, new Set([name]))
+    } else if (names !== null) {
+      names.add(name)
+    }
+    this.schedule()
+  }
+
+  private schedule(): void {
+    const now = Date.now()
+    if (!this.firstPendingAt) this.firstPendingAt = now
+    if (this.timer) clearTimeout(this.timer)
+    const delay = Math.max(0, Math.min(DEBOUNCE_MS, MAX_WAIT_MS - (now - this.firstPendingAt)))
+    this.timer = setTimeout(() => this.flush(), delay)
+  }
+
+  /**
+   * Compare queued directories against their known state and emit the differences
+   */
+  private async flush(): Promise<void> {
+    this.timer = null
+    if (this.flushing) {
+      // Picked up again once the current flush is done
+      return
+    }
+    this.flushing = true
+    this.firstPendingAt = 0
+    const pending = this.pending
+    this.pending = new Map()
+
+    const created: Change[] = []
+    const deleted: Change[] = []
+    const events: WatchEvent[] = []
+
+    try {
+      for (const [dir, names] of pending) {
+        const known = this.entries.get(dir)
+        if (!known) continue
+
+        let check: Iterable<string>
+        if (names === null) {
+          let listing: string[] = []
+          try {
+            listing = await fsp.readdir(dir)
+          } catch {
+            // Directory itself is gone; its parent reports the delete
+          }
+          check = new Set([...listing, ...known.keys()])
+        } else {
+          check = names
+        }
+
+        for (const name of check) {
+          if (this.ignore.has(name)) continue
+          const fullPath = path.join(dir, name)
+          const previous = known.get(name)
+          let current: EntryState | null = null
+          try {
+            current = toState(await fsp.lstat(fullPath))
+          } catch {
+            // Gone
+          }
+
+          if (previous && (!current || current.ino !== previous.ino || current.dir !== previous.dir)) {
+            known.delete(name)
+            deleted.push({ path: fullPath, state: previous })
+            if (previous.dir) this.removeDirectory(fullPath)
+          }
+          if (current && (!previous || current.ino !== previous.ino || current.dir !== previous.dir)) {
+            known.set(name, current)
+            created.push({ path: fullPath, state: current })
+            if (current.dir && this.recursive) await this.addDirectory(fullPath)
+          } else if (current && previous) {
+            known.set(name, current)
+            if (!current.dir && (current.mtimeMs !== previous.mtimeMs || current.size !== previous.size)) {
+              events.push({ type: 'modify', path: fullPath, kind: 'file' })
+            }
+          }
+        }
+      }
+
+      // A delete and a create of the same inode in one batch is a rename
+      for (const removed of deleted) {
+        const index = created.findIndex(c => c.state.ino === removed.state.ino && c.state.dir === removed.state.dir)
+        const kind = removed.state.dir ? 'directory' : 'file'
+        if (index !== -1) {
+          const [added] = created.splice(index, 1)
+          events.push({ type: 'rename', path: added.path, oldPath: removed.path, kind })
+        } else {
+          events.push({ type: 'delete', path: removed.path, kind })
+        }
+      }
+      for (const added of created) {
+        events.push({ type: 'create', path: added.path, kind: added.state.dir ? 'directory' : 'file' })
+      }
+    } finally {
+      this.flushing = false
+    }
+
+    if (events.length > 0 && !this.closed) {
+      this.emit(events)
+    }
+    if (this.pending.size > 0 && !this.closed) {
+      this.schedule()
+    }
+  }
+}
+
+export class WatchManager {
+  private config: AgentConfig
+  private fileManager: FileManager
+  private watches = new Map<string, DirectoryWatch>()
+
+  constructor(config: AgentConfig, fileManager: FileManager) {
+    this.config = config
+    this.fileManager = fileManager
+  }
+
+  /**
+   * Start watching a directory. Batches of events are passed to onEvents.
+   */
+  async watch(watchId: string, dirPath: string, options: WatchOptions, onEvents: (events: WatchEvent[]) => void): Promise<WatchInfo> {
+    if (this.watches.has(watchId)) {
+      throw new Error(`Watch ${watchId} already exists`)
+    }
+    if (this.watches.size >= MAX_WATCHES) {
+      throw new Error(`Too many watches (maximum ${MAX_WATCHES})`)
+    }
+
+    const resolvedPath = this.fileManager.resolvePath(dirPath)
+    if (this.config.debug) {
+      console.log(chalk.gray(`Files watch: ${watchId}, ${resolvedPath}, recursive=${options.recursive || false}`))
+    }
+
+    const watch = new DirectoryWatch(resolvedPath, options, onEvents)
+    this.watches.set(watchId, watch)
+    try {
+      await watch.start()
+    } catch (err) {
+      watch.close()
+      this.watches.delete(watchId)
+      throw err
+    }
+
+    return {
+      watchId,
+      path: resolvedPath,
+      recursive: watch.recursive,
+      directories: watch.directories,
+      limited: watch.limited,
+    }
+  }
+
+  /**
+   * Stop a watch
+   */
+  unwatch(watchId: string): boolean {
+    const watch = this.watches.get(watchId)
+    if (!watch) return false
+
+    if (this.config.debug) {
+      console.log(chalk.gray(`Files unwatch: ${watchId}`))
+    }
+
+    watch.close()
+    this.watches.delete(watchId)
+    return true
+  }
+
+  /**
+   * Stop all watches (the client that asked for them is gone)
+   */
+  unwatchAll(): void {
+    for (const watch of this.watches.values()) {
+      watch.close()
+    }
+    this.watches.clear()
+  }
+
+  /**
+   * Get the number of active watches
+   */
+  get count(): number {
+    return this.watches.size
+  }
+}
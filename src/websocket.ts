@@ -7,9 +7,19 @@ import { io, Socket } from 'socket.io-client'
 import * as os from 'os'
 import chalk from 'chalk'
 import { AgentConfig, getSystemInfo, VERSION } from './config.js'
-import type { TerminalManager } from './terminal.js'
+import { DEFAULT_VIEWER_ID, type TerminalManager, type TerminalSession } from './terminal.js'
 import type { FileManager } from './files.js'
+import type { LineEnding, TextEncoding } from './text-encoding.js'
+import type { TextEdit } from './patch.js'
 import type { GitManager } from './git.js'
+import type { RecordingManager } from './recording.js'
+import type { ExecManager } from './exec.js'
+import type { TransferManager } from './transfer.js'
+import type { WatchManager } from './watch.js'
+import type { SearchManager } from './search.js'
+import type { FileIndexManager } from './file-index.js'
+import type { ArchiveFormat, ArchiveManager } from './archive.js'
+import type { ConflictPolicy, CopyManager } from './copy.js'
 
 export class WebSocketManager {
   private socket: Socket | null = null
@@ -17,15 +27,44 @@ export class WebSocketManager {
   private terminalManager: TerminalManager
   private fileManager: FileManager
   private gitManager: GitManager
+  private recordingManager: RecordingManager
+  private execManager: ExecManager
+  private transferManager: TransferManager
+  private watchManager: WatchManager
+  private searchManager: SearchManager
+  private fileIndexManager: FileIndexManager
+  private archiveManager: ArchiveManager
+  private copyManager: CopyManager
   private reconnectAttempts = 0
   private heartbeatTimer: NodeJS.Timeout | null = null
   private isConnected = false
 
-  constructor(config: AgentConfig, terminalManager: TerminalManager, fileManager: FileManager, gitManager: GitManager) {
+  constructor(
+    config: AgentConfig,
+    terminalManager: TerminalManager,
+    fileManager: FileManager,
+    gitManager: GitManager,
+    recordingManager: RecordingManager,
+    execManager: ExecManager,
+    transferManager: TransferManager,
+    watchManager: WatchManager,
+    searchManager: SearchManager,
+    fileIndexManager: FileIndexManager,
+    archiveManager: ArchiveManager,
+    copyManager: CopyManager
+  ) {
     this.config = config
     this.terminalManager = terminalManager
     this.fileManager = fileManager
     this.gitManager = gitManager
+    this.recordingManager = recordingManager
+    this.execManager = execManager
+    this.transferManager = transferManager
+    this.watchManager = watchManager
+    this.searchManager = searchManager
+    this.fileIndexManager = fileIndexManager
+    this.archiveManager = archiveManager
+    this.copyManager = copyManager
   }
 
   /**
@@ -76,6 +115,11 @@ export class WebSocketManager {
       this.socket.on('disconnect', (reason) => {
         this.isConnected = false
         this.stopHeartbeat()
+        this.terminalManager.resetFlowControl()
+        // Watches belong to the dashboard connection; it subscribes again after reconnecting
+        this.watchManager.unwatchAll()
+        // Nobody is left to receive search results
+        this.searchManager.cancelAll()
         console.log(chalk.yellow('Disconnected:'), reason)
 
         // Socket.IO auto-reconnects for transport-level disconnects only.
@@ -113,17 +157,58 @@ export class WebSocketManager {
       // Terminal events from server
       this.setupTerminalHandlers()
 
+      // Sessions restored from a previous agent process were not spawned via
+      // terminal:spawn, so wire up their forwarding here
+      for (const sessionId of this.terminalManager.sessionIds) {
+        const session = this.terminalManager.get(sessionId)
+        if (session) {
+          this.forwardSession(session)
+        }
+      }
+
+      // Exec events from server
+      this.setupExecHandlers()
+
       // File events from server
       this.setupFileHandlers()
 
+      // File watch subscriptions
+      this.setupWatchHandlers()
+
+      // Content search
+      this.setupSearchHandlers()
+
+      // Fuzzy file finder
+      this.setupFindHandlers()
+
+      // Chunked file transfers
+      this.setupTransferHandlers()
+
+      // Directory archives and extraction
+      this.setupArchiveHandlers()
+
       // Git events from server
       this.setupGitHandlers()
 
+      // Recording events from server
+      this.setupRecordingHandlers()
+
       // Auth events from server
       this.setupAuthHandlers()
     })
   }
 
+  /**
+   * Resolve a process cwd: use provided cwd (with ~ expansion), or fall back to homeDir
+   */
+  private resolveCwd(requested?: string): string {
+    if (!requested) return this.config.homeDir
+    if (requested === '~' || requested.startsWith('~/')) {
+      return requested.replace('~', os.homedir())
+    }
+    return requested
+  }
+
   /**
    * Setup terminal event handlers
    */
@@ -138,20 +223,27 @@ export class WebSocketManager {
       rows?: number
       cwd?: string
       idleTimeoutMs?: number
+      record?: boolean
+      viewerId?: string
+      readOnly?: boolean
+      scrollbackBytes?: number
+      flowControl?: boolean
+      shellIntegration?: boolean
+      env?: Record<string, string>
+      envDenylist?: string[]
+      args?: string[]
+      login?: boolean
+      command?: string
+      longCommandMs?: number
+      name?: string
+      tags?: string[]
+      projectPath?: string
     }) => {
       if (this.config.debug) {
         console.log(chalk.gray(`Terminal spawn request: ${msg.sessionId}`))
       }
 
-      // Resolve cwd: use provided cwd, or fall back to homeDir
-      let cwd = this.config.homeDir
-      if (msg.cwd) {
-        let expanded = msg.cwd
-        if (expanded === '~' || expanded.startsWith('~/')) {
-          expanded = expanded.replace('~', os.homedir())
-        }
-        cwd = expanded
-      }
+      const cwd = this.resolveCwd(msg.cwd)
 
       try {
         const session = this.terminalManager.spawn(
@@ -160,27 +252,28 @@ export class WebSocketManager {
           msg.cols || 80,
           msg.rows || 24,
           cwd,
-          msg.idleTimeoutMs
+          msg.idleTimeoutMs,
+          {
+            record: msg.record,
+            viewerId: msg.viewerId,
+            readOnly: msg.readOnly,
+            scrollbackBytes: msg.scrollbackBytes,
+            flowControl: msg.flowControl,
+            shellIntegration: msg.shellIntegration,
+            env: msg.env,
+            envDenylist: msg.envDenylist,
+            args: msg.args,
+            login: msg.login,
+            command: msg.command,
+            longCommandMs: msg.longCommandMs,
+            name: msg.name,
+            tags: msg.tags,
+            projectPath: msg.projectPath,
+          }
         )
 
-        // Forward output to server
-        session.onData((data) => {
-          this.socket?.emit('terminal:output', {
-            type: 'terminal:output',
-            sessionId: msg.sessionId,
-            data,
-          })
-        })
-
-        // Forward exit to server
-        session.onExit((exitCode) => {
-          this.socket?.emit('terminal:closed', {
-            type: 'terminal:closed',
-            sessionId: msg.sessionId,
-            exitCode,
-          })
-          this.terminalManager.remove(msg.sessionId)
-        })
+        // Forward output and exit to server
+        this.forwardSession(session)
 
       } catch (err) {
         console.error(chalk.red('Terminal spawn error:'), err)
@@ -195,6 +288,7 @@ export class WebSocketManager {
     // Terminal input from server
     this.socket.on('terminal:input', (msg: {
       sessionId: string
+      viewerId?: string
       data: string
     }) => {
       if (this.config.debug) {
@@ -202,6 +296,15 @@ export class WebSocketManager {
       }
       const session = this.terminalManager.get(msg.sessionId)
       if (session) {
+        if (!this.terminalManager.canWrite(msg.sessionId, msg.viewerId || DEFAULT_VIEWER_ID)) {
+          this.socket?.emit('terminal:error', {
+            type: 'terminal:error',
+            sessionId: msg.sessionId,
+            viewerId: msg.viewerId,
+            error: 'Viewer is read-only or not attached',
+          })
+          return
+        }
         session.write(msg.data)
       } else {
         console.warn(chalk.yellow(`No terminal session found for: ${msg.sessionId}`))
@@ -212,13 +315,19 @@ export class WebSocketManager {
     // Terminal resize from server
     this.socket.on('terminal:resize', (msg: {
       sessionId: string
+      viewerId?: string
       cols: number
       rows: number
     }) => {
-      const session = this.terminalManager.get(msg.sessionId)
-      if (session) {
-        session.resize(msg.cols, msg.rows)
-      }
+      this.terminalManager.resizeViewer(msg.sessionId, msg.viewerId || DEFAULT_VIEWER_ID, msg.cols, msg.rows)
+    })
+
+    // Client processed output (flow control)
+    this.socket.on('terminal:ack', (msg: {
+      sessionId: string
+      bytes: number
+    }) => {
+      this.terminalManager.ack(msg.sessionId, msg.bytes)
     })
 
     // Terminal kill from server
@@ -245,11 +354,20 @@ export class WebSocketManager {
     // Detach terminal session (keep PTY alive)
     this.socket.on('terminal:detach', (msg: {
       sessionId: string
+      viewerId?: string
     }) => {
       if (this.config.debug) {
         console.log(chalk.gray(`Terminal detach request: ${msg.sessionId}`))
       }
-      this.terminalManager.detach(msg.sessionId)
+      const viewers = this.terminalManager.detach(msg.sessionId, msg.viewerId)
+      if (viewers) {
+        this.socket?.emit('terminal:viewer-detached', {
+          type: 'terminal:viewer-detached',
+          sessionId: msg.sessionId,
+          viewerId: msg.viewerId || null,
+          viewers,
+        })
+      }
     })
 
     // List existing sessions
@@ -264,204 +382,1148 @@ export class WebSocketManager {
       })
     })
 
-    // Reattach to existing session
-    this.socket.on('terminal:reattach', (msg: {
+    // Rename, tag or set the project of a session
+    this.socket.on('terminal:update-meta', async (msg: {
+      requestId: string
+      sessionId: string
+      name?: string | null
+      tags?: string[]
+      projectPath?: string | null
+    }) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`Terminal update-meta: ${msg.sessionId}`))
+      }
+      try {
+        const meta = await this.terminalManager.updateMeta(msg.sessionId, {
+          name: msg.name,
+          tags: msg.tags,
+          projectPath: msg.projectPath,
+        })
+        this.socket?.emit('terminal:update-meta:response', {
+          type: 'terminal:update-meta:response',
+          requestId: msg.requestId,
+          sessionId: msg.sessionId,
+          ...meta,
+          success: true,
+        })
+      } catch (err) {
+        console.error(chalk.red('Terminal update-meta error:'), err)
+        this.socket?.emit('terminal:update-meta:response', {
+          type: 'terminal:update-meta:response',
+          requestId: msg.requestId,
+          sessionId: msg.sessionId,
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    })
+
+    // Search a session's scrollback without attaching to it
+    this.socket.on('terminal:search', async (msg: {
+      requestId: string
+      sessionId: string
+      pattern: string
+      regex?: boolean
+      caseSensitive?: boolean
+      context?: number
+      fromLine?: number
+      backward?: boolean
+      limit?: number
+    }) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`Terminal search: ${msg.sessionId}`))
+      }
+      try {
+        const result = await this.terminalManager.search(msg.sessionId, msg)
+        if (!result) {
+          throw new Error(`Session ${msg.sessionId} not found`)
+        }
+        this.socket?.emit('terminal:search:response', {
+          type: 'terminal:search:response',
+          requestId: msg.requestId,
+          sessionId: msg.sessionId,
+          ...result,
+          success: true,
+        })
+      } catch (err) {
+        console.error(chalk.red('Terminal search error:'), err)
+        this.socket?.emit('terminal:search:response', {
+          type: 'terminal:search:response',
+          requestId: msg.requestId,
+          sessionId: msg.sessionId,
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    })
+
+    // Page through a session's scrollback as plain text
+    this.socket.on('terminal:lines', (msg: {
+      requestId: string
+      sessionId: string
+      fromLine?: number
+      backward?: boolean
+      count?: number
+    }) => {
+      try {
+        const result = this.terminalManager.readLines(msg.sessionId, msg)
+        if (!result) {
+          throw new Error(`Session ${msg.sessionId} not found`)
+        }
+        this.socket?.emit('terminal:lines:response', {
+          type: 'terminal:lines:response',
+          requestId: msg.requestId,
+          sessionId: msg.sessionId,
+          ...result,
+          success: true,
+        })
+      } catch (err) {
+        console.error(chalk.red('Terminal lines error:'), err)
+        this.socket?.emit('terminal:lines:response', {
+          type: 'terminal:lines:response',
+          requestId: msg.requestId,
+          sessionId: msg.sessionId,
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    })
+
+    // Attach a viewer to an existing session (other viewers stay attached)
+    this.socket.on('terminal:reattach', async (msg: {
       sessionId: string
+      viewerId?: string
+      readOnly?: boolean
+      flowControl?: boolean
       cols?: number
       rows?: number
     }) => {
       if (this.config.debug) {
         console.log(chalk.gray(`Terminal reattach request: ${msg.sessionId}`))
       }
+      await this.attachViewer(msg)
+    })
+
+    // Resume output after a connection drop from the last offset the client received.
+    // Falls back to a full reattach when the offset has left the replay window.
+    this.socket.on('terminal:resume', async (msg: {
+      sessionId: string
+      viewerId?: string
+      streamId: string
+      offset: number
+      readOnly?: boolean
+      flowControl?: boolean
+      cols?: number
+      rows?: number
+    }) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`Terminal resume request: ${msg.sessionId}, offset=${msg.offset}`))
+      }
 
-      const result = this.terminalManager.reattach(msg.sessionId)
+      const viewerId = msg.viewerId || DEFAULT_VIEWER_ID
+      const result = this.terminalManager.resume(msg.sessionId, viewerId, msg.streamId, msg.offset)
       if (!result) {
-        this.socket?.emit('terminal:error', {
-          type: 'terminal:error',
-          sessionId: msg.sessionId,
-          error: 'Session not found',
-        })
+        await this.attachViewer(msg)
         return
       }
 
-      // Send scrollback buffer
-      this.socket?.emit('terminal:scrollback', {
-        type: 'terminal:scrollback',
-        sessionId: msg.sessionId,
-        data: result.scrollback,
+      this.socket?.emit('terminal:output', {
+        type: 'terminal:output',
+        sessionId: msg.sessionId,
+        viewerId,
+        streamId: msg.streamId,
+        offset: result.offset,
+        data: result.data,
+        replay: true,
+      })
+    })
+  }
+
+  /**
+   * Attach a viewer to a session and send it a screen snapshot
+   */
+  private async attachViewer(msg: {
+    sessionId: string
+    viewerId?: string
+    readOnly?: boolean
+    flowControl?: boolean
+    cols?: number
+    rows?: number
+  }): Promise<void> {
+    const viewerId = msg.viewerId || DEFAULT_VIEWER_ID
+    const result = await this.terminalManager.reattach(msg.sessionId, viewerId, {
+      readOnly: msg.readOnly,
+      flowControl: msg.flowControl,
+      cols: msg.cols,
+      rows: msg.rows,
+    })
+    if (!result) {
+      this.socket?.emit('terminal:error', {
+        type: 'terminal:error',
+        sessionId: msg.sessionId,
+        viewerId,
+        error: 'Session not found',
+      })
+      return
+    }
+
+    // Send screen snapshot (scrollback + visible screen) to the attaching viewer.
+    // The client should reset its terminal to cols x rows before writing it, then
+    // ignore terminal:output chunks that end at or before the snapshot offset.
+    this.socket?.emit('terminal:scrollback', {
+      type: 'terminal:scrollback',
+      sessionId: msg.sessionId,
+      viewerId,
+      format: 'snapshot',
+      streamId: result.streamId,
+      offset: result.offset,
+      cols: result.cols,
+      rows: result.rows,
+      data: result.scrollback,
+    })
+
+    // Tell every viewer who is watching
+    this.socket?.emit('terminal:viewer-attached', {
+      type: 'terminal:viewer-attached',
+      sessionId: msg.sessionId,
+      viewerId,
+      readOnly: msg.readOnly || false,
+      viewers: result.viewers,
+    })
+  }
+
+  /**
+   * Forward a session's output and exit to the server
+   */
+  private forwardSession(session: TerminalSession): void {
+    session.onData((data, offset) => {
+      // socket.io buffers emits while disconnected; don't let that grow without bound.
+      // Clients recover the gap with terminal:resume.
+      if (!this.isConnected) return
+      this.socket?.emit('terminal:output', {
+        type: 'terminal:output',
+        sessionId: session.sessionId,
+        streamId: session.streamId,
+        offset,
+        data,
+      })
+    })
+
+    // Shell integration: structured command events and pushed cwd changes
+    session.onShellEvent((event) => {
+      switch (event.type) {
+        case 'command-start':
+          this.socket?.emit('terminal:command-start', {
+            type: 'terminal:command-start',
+            sessionId: session.sessionId,
+            command: event.command,
+            cwd: event.cwd,
+            startedAt: event.startedAt,
+          })
+          break
+        case 'command-end':
+          this.socket?.emit('terminal:command-end', {
+            type: 'terminal:command-end',
+            sessionId: session.sessionId,
+            command: event.command,
+            exitCode: event.exitCode,
+            durationMs: event.durationMs,
+          })
+          break
+        case 'cwd':
+          this.socket?.emit('terminal:cwd', {
+            type: 'terminal:cwd',
+            sessionId: session.sessionId,
+            cwd: event.cwd,
+          })
+          break
+      }
+    })
+
+    // Foreground process and busy/idle changes
+    session.onProcessChange((foreground, activity) => {
+      this.socket?.emit('terminal:process', {
+        type: 'terminal:process',
+        sessionId: session.sessionId,
+        activity,
+        foreground,
+      })
+    })
+
+    // Sent whether or not anyone is viewing the session
+    session.onNotification((notification) => {
+      this.socket?.emit('terminal:notification', {
+        type: 'terminal:notification',
+        sessionId: session.sessionId,
+        ...notification,
+        timestamp: Date.now(),
+      })
+    })
+
+    session.onExit((exitCode, reason) => {
+      this.socket?.emit('terminal:closed', {
+        type: 'terminal:closed',
+        sessionId: session.sessionId,
+        exitCode,
+        reason,
+      })
+      this.terminalManager.remove(session.sessionId)
+    })
+  }
+
+  /**
+   * Setup non-interactive command execution handlers
+   */
+  private setupExecHandlers(): void {
+    if (!this.socket) return
+
+    // Run a command without a PTY
+    this.socket.on('exec:run', (msg: {
+      execId: string
+      argv: string[]
+      cwd?: string
+      env?: Record<string, string>
+      envDenylist?: string[]
+      timeoutMs?: number
+      input?: string
+    }) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`Exec run request: ${msg.execId}`))
+      }
+
+      try {
+        const pid = this.execManager.run(msg.execId, {
+          argv: msg.argv,
+          cwd: this.resolveCwd(msg.cwd),
+          env: msg.env,
+          envDenylist: msg.envDenylist,
+          timeoutMs: msg.timeoutMs,
+          input: msg.input,
+        }, {
+          onOutput: (stream, data) => {
+            this.socket?.emit('exec:output', {
+              type: 'exec:output',
+              execId: msg.execId,
+              stream,
+              data,
+            })
+          },
+          onExit: (result) => {
+            this.socket?.emit('exec:exit', {
+              type: 'exec:exit',
+              execId: msg.execId,
+              ...result,
+            })
+          },
+        })
+
+        this.socket?.emit('exec:started', {
+          type: 'exec:started',
+          execId: msg.execId,
+          pid,
+        })
+      } catch (err) {
+        console.error(chalk.red('Exec run error:'), err)
+        this.socket?.emit('exec:exit', {
+          type: 'exec:exit',
+          execId: msg.execId,
+          exitCode: null,
+          signal: null,
+          timedOut: false,
+          cancelled: false,
+          durationMs: 0,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    })
+
+    // Cancel a running command
+    this.socket.on('exec:cancel', (msg: {
+      execId: string
+      signal?: NodeJS.Signals
+    }) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`Exec cancel request: ${msg.execId}`))
+      }
+      if (!this.execManager.cancel(msg.execId, msg.signal)) {
+        this.socket?.emit('exec:error', {
+          type: 'exec:error',
+          execId: msg.execId,
+          error: 'Exec not found',
+        })
+      }
+    })
+  }
+
+  /**
+   * Setup file event handlers
+   */
+  private setupFileHandlers(): void {
+    if (!this.socket) return
+
+    // List directory
+    this.socket.on('files:list', async (msg: {
+      requestId: string
+      path: string
+    }) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`Files list request: ${msg.path}`))
+      }
+
+      try {
+        const entries = await this.fileManager.list(msg.path)
+        this.socket?.emit('files:list:response', {
+          type: 'files:list:response',
+          requestId: msg.requestId,
+          path: msg.path,
+          entries,
+          success: true,
+        })
+      } catch (err) {
+        console.error(chalk.red('Files list error:'), err)
+        this.socket?.emit('files:list:response', {
+          type: 'files:list:response',
+          requestId: msg.requestId,
+          path: msg.path,
+          entries: [],
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    })
+
+    // Read file
+    this.socket.on('file:read', async (msg: {
+      requestId: string
+      path: string
+    }) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`File read request: ${msg.path}`))
+      }
+
+      try {
+        const result = await this.fileManager.read(msg.path)
+        this.socket?.emit('file:read:response', {
+          type: 'file:read:response',
+          requestId: msg.requestId,
+          ...result,
+          success: true,
+        })
+      } catch (err) {
+        console.error(chalk.red('File read error:'), err)
+        this.socket?.emit('file:read:response', {
+          type: 'file:read:response',
+          requestId: msg.requestId,
+          path: msg.path,
+          content: '',
+          encoding: 'utf8',
+          size: 0,
+          isBinary: false,
+          textEncoding: null,
+          bom: false,
+          lineEnding: null,
+          hash: '',
+          modified: '',
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    })
+
+    // Write file
+    this.socket.on('file:write', async (msg: {
+      requestId: string
+      path: string
+      content: string
+      encoding?: 'utf8' | 'base64'
+      textEncoding?: TextEncoding
+      bom?: boolean
+      lineEnding?: LineEnding
+      expectedHash?: string | null
+      followSymlinks?: boolean
+    }) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`File write request: ${msg.path}`))
+      }
+
+      try {
+        const result = await this.fileManager.write(msg.path, msg.content, msg.encoding || 'utf8', {
+          textEncoding: msg.textEncoding,
+          bom: msg.bom,
+          lineEnding: msg.lineEnding,
+          expectedHash: msg.expectedHash,
+          followSymlinks: msg.followSymlinks,
+        })
+        this.socket?.emit('file:write:response', {
+          type: 'file:write:response',
+          requestId: msg.requestId,
+          ...result,
+        })
+      } catch (err) {
+        console.error(chalk.red('File write error:'), err)
+        this.socket?.emit('file:write:response', {
+          type: 'file:write:response',
+          requestId: msg.requestId,
+          path: msg.path,
+          success: false,
+          bytesWritten: 0,
+          textEncoding: null,
+          bom: false,
+          lineEnding: null,
+          hash: '',
+          modified: '',
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    })
+
+    // Apply range edits or a unified diff to a file
+    this.socket.on('file:patch', async (msg: {
+      requestId: string
+      path: string
+      baseHash: string
+      edits?: TextEdit[]
+      diff?: string
+      followSymlinks?: boolean
+    }) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`File patch request: ${msg.path}`))
+      }
+
+      try {
+        const result = await this.fileManager.patch(msg.path, {
+          edits: msg.edits,
+          diff: msg.diff,
+        }, msg.baseHash, { followSymlinks: msg.followSymlinks })
+        this.socket?.emit('file:patch:response', {
+          type: 'file:patch:response',
+          requestId: msg.requestId,
+          ...result,
+        })
+      } catch (err) {
+        console.error(chalk.red('File patch error:'), err)
+        this.socket?.emit('file:patch:response', {
+          type: 'file:patch:response',
+          requestId: msg.requestId,
+          path: msg.path,
+          success: false,
+          bytesWritten: 0,
+          hash: '',
+          modified: '',
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    })
+
+    // Delete file/directory
+    this.socket.on('file:delete', async (msg: {
+      requestId: string
+      path: string
+      recursive?: boolean
+    }) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`File delete request: ${msg.path}`))
+      }
+
+      try {
+        const result = await this.fileManager.delete(msg.path, msg.recursive)
+        this.socket?.emit('file:delete:response', {
+          type: 'file:delete:response',
+          requestId: msg.requestId,
+          ...result,
+        })
+      } catch (err) {
+        console.error(chalk.red('File delete error:'), err)
+        this.socket?.emit('file:delete:response', {
+          type: 'file:delete:response',
+          requestId: msg.requestId,
+          path: msg.path,
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    })
+
+    // Create directory
+    this.socket.on('file:mkdir', async (msg: {
+      requestId: string
+      path: string
+      recursive?: boolean
+    }) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`Mkdir request: ${msg.path}`))
+      }
+
+      try {
+        const result = await this.fileManager.mkdir(msg.path, msg.recursive)
+        this.socket?.emit('file:mkdir:response', {
+          type: 'file:mkdir:response',
+          requestId: msg.requestId,
+          ...result,
+        })
+      } catch (err) {
+        console.error(chalk.red('Mkdir error:'), err)
+        this.socket?.emit('file:mkdir:response', {
+          type: 'file:mkdir:response',
+          requestId: msg.requestId,
+          path: msg.path,
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    })
+
+    // Rename/move file
+    this.socket.on('file:rename', async (msg: {
+      requestId: string
+      fromPath: string
+      toPath: string
+    }) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`Rename request: ${msg.fromPath} -> ${msg.toPath}`))
+      }
+
+      try {
+        const result = await this.fileManager.rename(msg.fromPath, msg.toPath)
+        this.socket?.emit('file:rename:response', {
+          type: 'file:rename:response',
+          requestId: msg.requestId,
+          fromPath: msg.fromPath,
+          ...result,
+        })
+      } catch (err) {
+        console.error(chalk.red('Rename error:'), err)
+        this.socket?.emit('file:rename:response', {
+          type: 'file:rename:response',
+          requestId: msg.requestId,
+          fromPath: msg.fromPath,
+          path: msg.toPath,
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    })
+
+    // Copy progress, for large trees
+    this.copyManager.onProgress((progress) => {
+      this.socket?.emit('file:copy:progress', {
+        type: 'file:copy:progress',
+        ...progress,
+      })
+    })
+
+    // Copy a file or directory tree (responds when done)
+    this.socket.on('file:copy', async (msg: {
+      requestId: string
+      fromPath: string
+      toPath: string
+      copyId?: string
+      conflict?: ConflictPolicy
+    }) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`Copy request: ${msg.fromPath} -> ${msg.toPath}`))
+      }
+
+      try {
+        const result = await this.copyManager.copy(msg.fromPath, msg.toPath, { conflict: msg.conflict }, msg.copyId)
+        this.socket?.emit('file:copy:response', {
+          type: 'file:copy:response',
+          requestId: msg.requestId,
+          fromPath: msg.fromPath,
+          ...result,
+          success: true,
+        })
+      } catch (err) {
+        console.error(chalk.red('Copy error:'), err)
+        this.socket?.emit('file:copy:response', {
+          type: 'file:copy:response',
+          requestId: msg.requestId,
+          copyId: msg.copyId,
+          fromPath: msg.fromPath,
+          path: msg.toPath,
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    })
+
+    // Stop a running copy
+    this.socket.on('file:copy:cancel', (msg: {
+      requestId: string
+      copyId: string
+    }) => {
+      const cancelled = this.copyManager.cancel(msg.copyId)
+      this.socket?.emit('file:copy:cancel:response', {
+        type: 'file:copy:cancel:response',
+        requestId: msg.requestId,
+        copyId: msg.copyId,
+        success: cancelled,
+        ...(cancelled ? {} : { error: `Copy ${msg.copyId} not found` }),
+      })
+    })
+
+    // Stat file/directory
+    this.socket.on('file:stat', async (msg: {
+      requestId: string
+      path: string
+    }) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`Stat request: ${msg.path}`))
+      }
+
+      try {
+        const entry = await this.fileManager.stat(msg.path)
+        this.socket?.emit('file:stat:response', {
+          type: 'file:stat:response',
+          requestId: msg.requestId,
+          path: msg.path,
+          entry,
+          success: entry !== null,
+          error: entry === null ? 'File not found' : undefined,
+        })
+      } catch (err) {
+        console.error(chalk.red('Stat error:'), err)
+        this.socket?.emit('file:stat:response', {
+          type: 'file:stat:response',
+          requestId: msg.requestId,
+          path: msg.path,
+          entry: null,
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    })
+  }
+
+  /**
+   * Resolve git cwd - handles ~ expansion and field name compatibility
+   */
+  private resolveGitCwd(msg: { cwd?: string; path?: string }): string {
+    let cwd = msg.cwd || msg.path || os.homedir()
+    if (cwd === '~' || cwd.startsWith('~/')) {
+      cwd = cwd.replace('~', os.homedir())
+    }
+    return cwd
+  }
+
+  /**
+   * Setup file watch handlers
+   */
+  private setupWatchHandlers(): void {
+    if (!this.socket) return
+
+    // Subscribe to changes in a directory
+    this.socket.on('files:watch', async (msg: {
+      requestId: string
+      watchId?: string
+      path: string
+      recursive?: boolean
+      ignore?: string[]
+    }) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`Files watch request: ${msg.path}`))
+      }
+
+      const watchId = msg.watchId || msg.requestId
+      try {
+        const result = await this.watchManager.watch(watchId, msg.path, {
+          recursive: msg.recursive,
+          ignore: msg.ignore,
+        }, (events) => {
+          this.socket?.emit('files:watch:events', {
+            type: 'files:watch:events',
+            watchId,
+            events,
+          })
+        })
+        this.socket?.emit('files:watch:response', {
+          type: 'files:watch:response',
+          requestId: msg.requestId,
+          ...result,
+          success: true,
+        })
+      } catch (err) {
+        console.error(chalk.red('Files watch error:'), err)
+        this.socket?.emit('files:watch:response', {
+          type: 'files:watch:response',
+          requestId: msg.requestId,
+          watchId,
+          path: msg.path,
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    })
+
+    // Cancel a subscription
+    this.socket.on('files:unwatch', (msg: {
+      requestId: string
+      watchId: string
+    }) => {
+      const removed = this.watchManager.unwatch(msg.watchId)
+      this.socket?.emit('files:unwatch:response', {
+        type: 'files:unwatch:response',
+        requestId: msg.requestId,
+        watchId: msg.watchId,
+        success: removed,
+        ...(removed ? {} : { error: `Watch ${msg.watchId} not found` }),
+      })
+    })
+  }
+
+  /**
+   * Setup content search handlers
+   */
+  private setupSearchHandlers(): void {
+    if (!this.socket) return
+
+    // Search file contents under a directory; results stream back in batches
+    this.socket.on('files:search', async (msg: {
+      requestId: string
+      searchId?: string
+      root?: string
+      pattern: string
+      regex?: boolean
+      caseSensitive?: boolean
+      include?: string[]
+      exclude?: string[]
+      hidden?: boolean
+      maxResults?: number
+    }) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`Files search request: ${msg.root || '~'}`))
+      }
+
+      const searchId = msg.searchId || msg.requestId
+      try {
+        const result = await this.searchManager.search(searchId, {
+          root: msg.root,
+          pattern: msg.pattern,
+          regex: msg.regex,
+          caseSensitive: msg.caseSensitive,
+          include: msg.include,
+          exclude: msg.exclude,
+          hidden: msg.hidden,
+          maxResults: msg.maxResults,
+        }, {
+          onResults: (results) => {
+            this.socket?.emit('files:search:results', {
+              type: 'files:search:results',
+              searchId,
+              results,
+            })
+          },
+          onDone: (summary) => {
+            this.socket?.emit('files:search:done', {
+              type: 'files:search:done',
+              ...summary,
+              success: !summary.error,
+            })
+          },
+        })
+        this.socket?.emit('files:search:response', {
+          type: 'files:search:response',
+          requestId: msg.requestId,
+          ...result,
+          success: true,
+        })
+      } catch (err) {
+        console.error(chalk.red('Files search error:'), err)
+        this.socket?.emit('files:search:response', {
+          type: 'files:search:response',
+          requestId: msg.requestId,
+          searchId,
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    })
+
+    // Stop a running search
+    this.socket.on('files:search:cancel', (msg: {
+      requestId: string
+      searchId: string
+    }) => {
+      const cancelled = this.searchManager.cancel(msg.searchId)
+      this.socket?.emit('files:search:cancel:response', {
+        type: 'files:search:cancel:response',
+        requestId: msg.requestId,
+        searchId: msg.searchId,
+        success: cancelled,
+        ...(cancelled ? {} : { error: `Search ${msg.searchId} not found` }),
+      })
+    })
+  }
+
+  /**
+   * Setup fuzzy file finder handlers
+   */
+  private setupFindHandlers(): void {
+    if (!this.socket) return
+
+    // Tell the dashboard when an index has finished warming up, so it can query again
+    this.fileIndexManager.onStatus((status) => {
+      this.socket?.emit('files:index:status', {
+        type: 'files:index:status',
+        ...status,
       })
+    })
 
-      // Re-register output forwarding (clear old callbacks first to prevent double echo)
-      const session = this.terminalManager.get(msg.sessionId)
-      if (session) {
-        session.clearDataCallbacks()
-        session.onData((data) => {
-          this.socket?.emit('terminal:output', {
-            type: 'terminal:output',
-            sessionId: msg.sessionId,
-            data,
-          })
+    // Fuzzy-find files by path
+    this.socket.on('files:find', async (msg: {
+      requestId: string
+      root?: string
+      query: string
+      limit?: number
+    }) => {
+      try {
+        const result = await this.fileIndexManager.find(msg.root, msg.query || '', msg.limit)
+        this.socket?.emit('files:find:response', {
+          type: 'files:find:response',
+          requestId: msg.requestId,
+          ...result,
+          success: true,
+        })
+      } catch (err) {
+        console.error(chalk.red('Files find error:'), err)
+        this.socket?.emit('files:find:response', {
+          type: 'files:find:response',
+          requestId: msg.requestId,
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
         })
-
-        // Resize if dimensions changed
-        if (msg.cols && msg.rows) {
-          session.resize(msg.cols, msg.rows)
-        }
       }
     })
   }
 
   /**
-   * Setup file event handlers
+   * Setup chunked file transfer handlers
    */
-  private setupFileHandlers(): void {
+  private setupTransferHandlers(): void {
     if (!this.socket) return
 
-    // List directory
-    this.socket.on('files:list', async (msg: {
+    // Progress after each chunk, for both directions
+    this.transferManager.onProgress((progress) => {
+      this.socket?.emit('transfer:progress', {
+        type: 'transfer:progress',
+        ...progress,
+      })
+    })
+
+    // Start a download
+    this.socket.on('transfer:download:start', async (msg: {
       requestId: string
       path: string
+      transferId?: string
     }) => {
       if (this.config.debug) {
-        console.log(chalk.gray(`Files list request: ${msg.path}`))
+        console.log(chalk.gray(`Transfer download request: ${msg.path}`))
       }
 
       try {
-        const entries = await this.fileManager.list(msg.path)
-        this.socket?.emit('files:list:response', {
-          type: 'files:list:response',
+        const result = await this.transferManager.startDownload(msg.path, msg.transferId)
+        this.socket?.emit('transfer:download:start:response', {
+          type: 'transfer:download:start:response',
           requestId: msg.requestId,
-          path: msg.path,
-          entries,
+          ...result,
           success: true,
         })
       } catch (err) {
-        console.error(chalk.red('Files list error:'), err)
-        this.socket?.emit('files:list:response', {
-          type: 'files:list:response',
+        console.error(chalk.red('Transfer download error:'), err)
+        this.socket?.emit('transfer:download:start:response', {
+          type: 'transfer:download:start:response',
           requestId: msg.requestId,
           path: msg.path,
-          entries: [],
           success: false,
           error: err instanceof Error ? err.message : String(err),
         })
       }
     })
 
-    // Read file
-    this.socket.on('file:read', async (msg: {
+    // Fetch one chunk of a download (client repeats with offset until eof)
+    this.socket.on('transfer:download:chunk', async (msg: {
+      requestId: string
+      transferId: string
+      offset?: number
+      length?: number
+    }) => {
+      try {
+        const result = await this.transferManager.readChunk(msg.transferId, msg.offset || 0, msg.length)
+        this.socket?.emit('transfer:download:chunk:response', {
+          type: 'transfer:download:chunk:response',
+          requestId: msg.requestId,
+          ...result,
+          success: true,
+        })
+      } catch (err) {
+        console.error(chalk.red('Transfer chunk error:'), err)
+        this.socket?.emit('transfer:download:chunk:response', {
+          type: 'transfer:download:chunk:response',
+          requestId: msg.requestId,
+          transferId: msg.transferId,
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    })
+
+    // Start an upload, or resume one after a reconnect
+    this.socket.on('transfer:upload:start', async (msg: {
       requestId: string
       path: string
+      size: number
+      transferId?: string
     }) => {
       if (this.config.debug) {
-        console.log(chalk.gray(`File read request: ${msg.path}`))
+        console.log(chalk.gray(`Transfer upload request: ${msg.path}, size=${msg.size}`))
       }
 
       try {
-        const result = await this.fileManager.read(msg.path)
-        this.socket?.emit('file:read:response', {
-          type: 'file:read:response',
+        const result = await this.transferManager.startUpload(msg.path, msg.size, msg.transferId)
+        this.socket?.emit('transfer:upload:start:response', {
+          type: 'transfer:upload:start:response',
           requestId: msg.requestId,
           ...result,
           success: true,
         })
       } catch (err) {
-        console.error(chalk.red('File read error:'), err)
-        this.socket?.emit('file:read:response', {
-          type: 'file:read:response',
+        console.error(chalk.red('Transfer upload error:'), err)
+        this.socket?.emit('transfer:upload:start:response', {
+          type: 'transfer:upload:start:response',
           requestId: msg.requestId,
           path: msg.path,
-          content: '',
-          encoding: 'utf8',
-          size: 0,
-          isBinary: false,
           success: false,
           error: err instanceof Error ? err.message : String(err),
         })
       }
     })
 
-    // Write file
-    this.socket.on('file:write', async (msg: {
+    // Append one chunk to an upload
+    this.socket.on('transfer:upload:chunk', async (msg: {
       requestId: string
-      path: string
+      transferId: string
+      offset: number
       content: string
-      encoding?: 'utf8' | 'base64'
     }) => {
-      if (this.config.debug) {
-        console.log(chalk.gray(`File write request: ${msg.path}`))
-      }
-
       try {
-        const result = await this.fileManager.write(msg.path, msg.content, msg.encoding || 'utf8')
-        this.socket?.emit('file:write:response', {
-          type: 'file:write:response',
+        const result = await this.transferManager.writeChunk(msg.transferId, msg.offset, msg.content)
+        this.socket?.emit('transfer:upload:chunk:response', {
+          type: 'transfer:upload:chunk:response',
           requestId: msg.requestId,
           ...result,
+          success: true,
         })
       } catch (err) {
-        console.error(chalk.red('File write error:'), err)
-        this.socket?.emit('file:write:response', {
-          type: 'file:write:response',
+        console.error(chalk.red('Transfer chunk error:'), err)
+        this.socket?.emit('transfer:upload:chunk:response', {
+          type: 'transfer:upload:chunk:response',
           requestId: msg.requestId,
-          path: msg.path,
+          transferId: msg.transferId,
           success: false,
-          bytesWritten: 0,
           error: err instanceof Error ? err.message : String(err),
         })
       }
     })
 
-    // Delete file/directory
-    this.socket.on('file:delete', async (msg: {
+    // Verify the checksum and complete a transfer
+    this.socket.on('transfer:finish', async (msg: {
       requestId: string
-      path: string
-      recursive?: boolean
+      transferId: string
+      sha256?: string
     }) => {
-      if (this.config.debug) {
-        console.log(chalk.gray(`File delete request: ${msg.path}`))
+      try {
+        const result = await this.transferManager.finish(msg.transferId, msg.sha256)
+        this.socket?.emit('transfer:finish:response', {
+          type: 'transfer:finish:response',
+          requestId: msg.requestId,
+          ...result,
+          success: true,
+        })
+      } catch (err) {
+        console.error(chalk.red('Transfer finish error:'), err)
+        this.socket?.emit('transfer:finish:response', {
+          type: 'transfer:finish:response',
+          requestId: msg.requestId,
+          transferId: msg.transferId,
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        })
       }
+    })
 
+    // Abandon a transfer, removing a partial upload
+    this.socket.on('transfer:cancel', async (msg: {
+      requestId: string
+      transferId: string
+    }) => {
       try {
-        const result = await this.fileManager.delete(msg.path, msg.recursive)
-        this.socket?.emit('file:delete:response', {
-          type: 'file:delete:response',
+        const result = {
+          transferId: msg.transferId,
+          cancelled: await this.transferManager.cancel(msg.transferId),
+        }
+        this.socket?.emit('transfer:cancel:response', {
+          type: 'transfer:cancel:response',
           requestId: msg.requestId,
           ...result,
+          success: true,
         })
       } catch (err) {
-        console.error(chalk.red('File delete error:'), err)
-        this.socket?.emit('file:delete:response', {
-          type: 'file:delete:response',
+        console.error(chalk.red('Transfer cancel error:'), err)
+        this.socket?.emit('transfer:cancel:response', {
+          type: 'transfer:cancel:response',
           requestId: msg.requestId,
-          path: msg.path,
+          transferId: msg.transferId,
           success: false,
           error: err instanceof Error ? err.message : String(err),
         })
       }
     })
+  }
 
-    // Create directory
-    this.socket.on('file:mkdir', async (msg: {
+  /**
+   * Setup archive handlers. Archives are pulled in chunks like downloads;
+   * extraction works on an archive uploaded with transfer:upload first.
+   */
+  private setupArchiveHandlers(): void {
+    if (!this.socket) return
+
+    // Progress after each chunk
+    this.archiveManager.onProgress((progress) => {
+      this.socket?.emit('files:archive:progress', {
+        type: 'files:archive:progress',
+        ...progress,
+      })
+    })
+
+    // Start archiving a directory
+    this.socket.on('files:archive', async (msg: {
       requestId: string
       path: string
-      recursive?: boolean
+      archiveId?: string
+      format?: ArchiveFormat
+      exclude?: string[]
+      gitignore?: boolean
     }) => {
       if (this.config.debug) {
-        console.log(chalk.gray(`Mkdir request: ${msg.path}`))
+        console.log(chalk.gray(`Archive request: ${msg.path}`))
       }
 
       try {
-        const result = await this.fileManager.mkdir(msg.path, msg.recursive)
-        this.socket?.emit('file:mkdir:response', {
-          type: 'file:mkdir:response',
+        const result = await this.archiveManager.create(msg.path, {
+          format: msg.format,
+          exclude: msg.exclude,
+          gitignore: msg.gitignore,
+        }, msg.archiveId)
+        this.socket?.emit('files:archive:response', {
+          type: 'files:archive:response',
           requestId: msg.requestId,
           ...result,
+          success: true,
         })
       } catch (err) {
-        console.error(chalk.red('Mkdir error:'), err)
-        this.socket?.emit('file:mkdir:response', {
-          type: 'file:mkdir:response',
+        console.error(chalk.red('Archive error:'), err)
+        this.socket?.emit('files:archive:response', {
+          type: 'files:archive:response',
           requestId: msg.requestId,
           path: msg.path,
           success: false,
@@ -470,63 +1532,81 @@ export class WebSocketManager {
       }
     })
 
-    // Rename/move file
-    this.socket.on('file:rename', async (msg: {
+    // Fetch the next chunk of an archive (client repeats with offset until eof)
+    this.socket.on('files:archive:chunk', async (msg: {
       requestId: string
-      fromPath: string
-      toPath: string
+      archiveId: string
+      offset?: number
+      length?: number
     }) => {
-      if (this.config.debug) {
-        console.log(chalk.gray(`Rename request: ${msg.fromPath} -> ${msg.toPath}`))
-      }
-
       try {
-        const result = await this.fileManager.rename(msg.fromPath, msg.toPath)
-        this.socket?.emit('file:rename:response', {
-          type: 'file:rename:response',
+        const result = await this.archiveManager.readChunk(msg.archiveId, msg.offset || 0, msg.length)
+        this.socket?.emit('files:archive:chunk:response', {
+          type: 'files:archive:chunk:response',
           requestId: msg.requestId,
-          fromPath: msg.fromPath,
           ...result,
+          success: true,
         })
       } catch (err) {
-        console.error(chalk.red('Rename error:'), err)
-        this.socket?.emit('file:rename:response', {
-          type: 'file:rename:response',
+        console.error(chalk.red('Archive chunk error:'), err)
+        this.socket?.emit('files:archive:chunk:response', {
+          type: 'files:archive:chunk:response',
           requestId: msg.requestId,
-          fromPath: msg.fromPath,
-          path: msg.toPath,
+          archiveId: msg.archiveId,
           success: false,
           error: err instanceof Error ? err.message : String(err),
         })
       }
     })
 
-    // Stat file/directory
-    this.socket.on('file:stat', async (msg: {
+    // Stop building an archive
+    this.socket.on('files:archive:cancel', (msg: {
       requestId: string
-      path: string
+      archiveId: string
+    }) => {
+      const cancelled = this.archiveManager.cancel(msg.archiveId)
+      this.socket?.emit('files:archive:cancel:response', {
+        type: 'files:archive:cancel:response',
+        requestId: msg.requestId,
+        archiveId: msg.archiveId,
+        success: cancelled,
+        ...(cancelled ? {} : { error: `Archive ${msg.archiveId} not found` }),
+      })
+    })
+
+    // Unpack an archive into a directory
+    this.socket.on('files:extract', async (msg: {
+      requestId: string
+      archivePath: string
+      destination: string
+      overwrite?: boolean
     }) => {
       if (this.config.debug) {
-        console.log(chalk.gray(`Stat request: ${msg.path}`))
+        console.log(chalk.gray(`Extract request: ${msg.archivePath} -> ${msg.destination}`))
       }
 
       try {
-        const entry = await this.fileManager.stat(msg.path)
-        this.socket?.emit('file:stat:response', {
-          type: 'file:stat:response',
+        const result = await this.archiveManager.extract(msg.archivePath, msg.destination, {
+          overwrite: msg.overwrite,
+        }, (progress) => {
+          this.socket?.emit('files:extract:progress', {
+            type: 'files:extract:progress',
+            requestId: msg.requestId,
+            ...progress,
+          })
+        })
+        this.socket?.emit('files:extract:response', {
+          type: 'files:extract:response',
           requestId: msg.requestId,
-          path: msg.path,
-          entry,
-          success: entry !== null,
-          error: entry === null ? 'File not found' : undefined,
+          ...result,
+          success: true,
         })
       } catch (err) {
-        console.error(chalk.red('Stat error:'), err)
-        this.socket?.emit('file:stat:response', {
-          type: 'file:stat:response',
+        console.error(chalk.red('Extract error:'), err)
+        this.socket?.emit('files:extract:response', {
+          type: 'files:extract:response',
           requestId: msg.requestId,
-          path: msg.path,
-          entry: null,
+          destination: msg.destination,
           success: false,
           error: err instanceof Error ? err.message : String(err),
         })
@@ -534,17 +1614,6 @@ export class WebSocketManager {
     })
   }
 
-  /**
-   * Resolve git cwd - handles ~ expansion and field name compatibility
-   */
-  private resolveGitCwd(msg: { cwd?: string; path?: string }): string {
-    let cwd = msg.cwd || msg.path || os.homedir()
-    if (cwd === '~' || cwd.startsWith('~/')) {
-      cwd = cwd.replace('~', os.homedir())
-    }
-    return cwd
-  }
-
   /**
    * Setup Git event handlers
    */
@@ -858,6 +1927,109 @@ export class WebSocketManager {
     })
   }
 
+  /**
+   * Setup terminal recording handlers
+   */
+  private setupRecordingHandlers(): void {
+    if (!this.socket) return
+
+    // List recordings of a session
+    this.socket.on('recording:list', async (msg: {
+      requestId: string
+      sessionId: string
+    }) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`Recording list request: ${msg.sessionId}`))
+      }
+
+      try {
+        const recordings = await this.recordingManager.list(msg.sessionId)
+        this.socket?.emit('recording:list:response', {
+          type: 'recording:list:response',
+          requestId: msg.requestId,
+          sessionId: msg.sessionId,
+          recordings,
+          success: true,
+        })
+      } catch (err) {
+        console.error(chalk.red('Recording list error:'), err)
+        this.socket?.emit('recording:list:response', {
+          type: 'recording:list:response',
+          requestId: msg.requestId,
+          sessionId: msg.sessionId,
+          recordings: [],
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    })
+
+    // Fetch one chunk of a recording (client repeats with offset until eof)
+    this.socket.on('recording:fetch', async (msg: {
+      requestId: string
+      sessionId: string
+      recordingId: string
+      offset?: number
+      length?: number
+    }) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`Recording fetch request: ${msg.sessionId}/${msg.recordingId}, offset=${msg.offset || 0}`))
+      }
+
+      try {
+        const chunk = await this.recordingManager.read(msg.sessionId, msg.recordingId, msg.offset, msg.length)
+        this.socket?.emit('recording:fetch:response', {
+          type: 'recording:fetch:response',
+          requestId: msg.requestId,
+          ...chunk,
+          success: true,
+        })
+      } catch (err) {
+        console.error(chalk.red('Recording fetch error:'), err)
+        this.socket?.emit('recording:fetch:response', {
+          type: 'recording:fetch:response',
+          requestId: msg.requestId,
+          sessionId: msg.sessionId,
+          recordingId: msg.recordingId,
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    })
+
+    // Delete one or all recordings of a session
+    this.socket.on('recording:delete', async (msg: {
+      requestId: string
+      sessionId: string
+      recordingId?: string
+    }) => {
+      if (this.config.debug) {
+        console.log(chalk.gray(`Recording delete request: ${msg.sessionId}/${msg.recordingId || '*'}`))
+      }
+
+      try {
+        const result = await this.recordingManager.delete(msg.sessionId, msg.recordingId)
+        this.socket?.emit('recording:delete:response', {
+          type: 'recording:delete:response',
+          requestId: msg.requestId,
+          sessionId: msg.sessionId,
+          ...result,
+          success: true,
+        })
+      } catch (err) {
+        console.error(chalk.red('Recording delete error:'), err)
+        this.socket?.emit('recording:delete:response', {
+          type: 'recording:delete:response',
+          requestId: msg.requestId,
+          sessionId: msg.sessionId,
+          deleted: [],
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      }
+    })
+  }
+
   /**
    * Setup auth deployment handlers
    */
@@ -885,6 +2057,9 @@ export class WebSocketManager {
         // Write env file
         await fs.writeFile(envFile, content, { mode: 0o600 })
 
+        // Keep the value out of terminal output from now on
+        this.terminalManager.redactor.addSecret(msg.envVarValue)
+
         // Add source line to shell profiles if not present
         const sourceLine = `[ -f "${envFile}" ] && source "${envFile}"`
         const profiles = ['.bashrc', '.zshrc', '.profile']